@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { AppState, QuizQuestion, QuizResult, QuizMode, QuizSettings, UserProfile, QuizHistoryItem } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppState, QuizQuestion, QuizResult, QuizMode, QuizSettings, UserProfile, QuizHistoryItem, ReviewGrade, QuestionAttempt, MistakeEntry, QuizProgress, QuizCheckpoint, Difficulty } from './types';
 import { InputView } from './components/InputView';
 import { QuizView } from './components/QuizView';
 import { ResultView } from './components/ResultView';
@@ -8,16 +8,30 @@ import { ProfileDropdown } from './components/ProfileDropdown';
 import { ProfileSettingsModal } from './components/ProfileSettingsModal';
 import { AuthView } from './components/AuthView';
 import { HistoryView } from './components/HistoryView';
+import { MistakesView } from './components/MistakesView';
+import { HistoryReplayView } from './components/HistoryReplayView';
 import { SummaryView } from './components/SummaryView';
-import { generateQuizFromContent, generateSummary } from './services/geminiService';
-import { registerUser, loginUser, logoutUser, getCurrentUser, updateUserProfile, saveQuizHistory, getQuizHistory, updateUserStats } from './services/storageService';
-import { Sparkles, BrainCircuit } from 'lucide-react';
+import { generateQuizFromContent, generateSummary, describeProvider } from './services/geminiService';
+import { getAIErrorMessage, isAbortError } from './services/aiErrors';
+import { buildCacheKey, buildMaterialKey, getCachedQuiz, cacheQuiz, getCachedSummary, cacheSummary } from './services/quizCache';
+import { recordReview, getDueCards, countDueCards, buildReviewSession } from './services/srsService';
+import { recordAttempt, attachExplanationFeedback, getMistakes, removeMistake, buildMistakeSession } from './services/mistakeService';
+import { isConfidentlyWrong } from './services/calibration';
+import { getStartingDifficulty, FOLLOW_UP_COUNT } from './services/adaptiveDifficulty';
+import { saveCheckpointQuiz, saveCheckpointProgress, saveCheckpointTimer, getCheckpoint, clearCheckpoint } from './services/sessionService';
+import { onStorageError, getSetting, saveSetting } from './services/dataStore';
+import { getAvoidList, classifyQuestions, addToBank } from './services/questionBank';
+import { registerUser, loginUser, logoutUser, restoreSession, verifyEmail, sendVerificationEmail, changePassword, changeEmail, deleteAccount, updateUserProfile, saveQuizHistory, getQuizHistory, updateUserStats, applySyncedStats } from './services/storageService';
+import { startSync } from './services/syncService';
+import { Sparkles, BrainCircuit, X, PlayCircle } from 'lucide-react';
 
 export default function App() {
   const [appState, setAppState] = useState<AppState>(AppState.AUTH);
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [pendingQuestions, setPendingQuestions] = useState(0); // Still being generated in the background
   const [lastResult, setLastResult] = useState<QuizResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [currentTopic, setCurrentTopic] = useState<string>('');
   const [summaryText, setSummaryText] = useState<string>('');
   
@@ -25,24 +39,99 @@ export default function App() {
   const [activeSettings, setActiveSettings] = useState<QuizSettings | null>(null);
   const [activeMode, setActiveMode] = useState<QuizMode>('MIXED');
   const [user, setUser] = useState<UserProfile | null>(null);
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
   const [isProfileSettingsOpen, setIsProfileSettingsOpen] = useState(false);
   const [darkMode, setDarkMode] = useState(false);
   
   // History
   const [history, setHistory] = useState<QuizHistoryItem[]>([]);
+  const [replayItem, setReplayItem] = useState<QuizHistoryItem | null>(null);
+
+  // Spaced repetition cards due now
+  const [dueCount, setDueCount] = useState(0);
+
+  // Mistake notebook
+  const [mistakes, setMistakes] = useState<MistakeEntry[]>([]);
+
+  // Interrupted quiz: the checkpoint on offer, and the progress handed to QuizView once resumed
+  const [resumeCheckpoint, setResumeCheckpoint] = useState<QuizCheckpoint | null>(null);
+  const [restoredProgress, setRestoredProgress] = useState<QuizProgress | undefined>(undefined);
+
+  // In-flight AI request, so the loading screen can cancel it
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Material behind the current quiz, for adaptive follow-up questions
+  const sourceRef = useRef<{ text: string; files: File[]; materialKey: string | null } | null>(null);
+  const followUpAbortRef = useRef<AbortController | null>(null);
+  const checkpointQuestionsRef = useRef<QuizQuestion[] | null>(null); // Question set the checkpoint holds
+
+  // New vs. already-asked questions in this session, against the user's question bank
+  const [repeatStats, setRepeatStats] = useState<{ fresh: number; repeated: number } | null>(null);
 
   // Initialize
   useEffect(() => {
-    // Check Auth
-    const currentUser = getCurrentUser();
-    if (currentUser) {
-        setUser(currentUser);
-        setAppState(AppState.INPUT);
-    } else {
-        setAppState(AppState.AUTH);
-    }
+    // Sign back in from the stored token, then handle an email verification link if we came from one
+    const verifyToken = new URLSearchParams(window.location.search).get('verify');
+    const init = async () => {
+        try {
+            const restored = await restoreSession();
+            if (restored) {
+                setUser(restored);
+                setAppState(AppState.INPUT);
+            }
+        } catch (e: any) {
+            setError(e.message);
+        }
+        if (verifyToken) {
+            window.history.replaceState(null, '', window.location.pathname);
+            try {
+                const verified = await verifyEmail(verifyToken);
+                if (verified) setUser(verified);
+                setNotice("Email verified. Thanks!");
+            } catch (e: any) {
+                setError(e.message);
+            }
+        }
+        setIsRestoringSession(false);
+    };
+    init();
   }, []);
 
+  // Refresh the review count whenever the home screen shows
+  useEffect(() => {
+    if (user && appState === AppState.INPUT) setDueCount(countDueCards(user.id));
+  }, [user, appState]);
+
+  // Offer to pick up an interrupted quiz after login or a refresh
+  useEffect(() => {
+    setResumeCheckpoint(user ? getCheckpoint(user.id) : null);
+  }, [user?.id]);
+
+  // Progress from the user's other devices comes in while they're signed in
+  useEffect(() => {
+    if (!user) return;
+    const userId = user.id;
+    return startSync(userId, ({ stats, statsChanged, historyChanged }) => {
+      const updated = statsChanged ? applySyncedStats(userId, stats) : null;
+      if (updated) setUser(updated);
+      if (historyChanged) setHistory(getQuizHistory(userId));
+    });
+  }, [user?.id]);
+
+  // Background saves that fail (e.g. the device is full) surface as an error banner
+  useEffect(() => onStorageError(e => setError(e.message)), []);
+
+  // Theme is a per-user setting
+  useEffect(() => {
+    if (user) setDarkMode(getSetting<boolean>(user.id, 'darkMode') ?? false);
+  }, [user?.id]);
+
+  const handleToggleTheme = () => {
+    const next = !darkMode;
+    setDarkMode(next);
+    if (user) saveSetting(user.id, 'darkMode', next);
+  };
+
   // Dark Mode Effect
   useEffect(() => {
     if (darkMode) {
@@ -55,7 +144,7 @@ export default function App() {
   // Auth Handlers
   const handleLogin = async (email: string, pass: string) => {
     try {
-        const u = loginUser(email, pass);
+        const u = await loginUser(email, pass);
         setUser(u);
         setAppState(AppState.INPUT);
         setError(null);
@@ -66,19 +155,33 @@ export default function App() {
 
   const handleRegister = async (name: string, email: string, pass: string) => {
     try {
-        const u = registerUser(name, email, pass);
+        const u = await registerUser(name, email, pass);
         setUser(u);
         setAppState(AppState.INPUT);
         setError(null);
+        setNotice(`We sent a verification link to ${email}.`);
     } catch (e: any) {
         setError(e.message);
     }
   };
 
   const handleLogout = () => {
-      logoutUser();
+      logoutUser().catch(e => console.warn('Sign-out did not reach the server', e));
+      setUser(null);
+      setAppState(AppState.AUTH);
+  };
+
+  // Errors go back to the profile modal, which shows them next to the form
+  const handleChangeEmail = async (password: string, newEmail: string) => {
+      setUser(await changeEmail(password, newEmail));
+  };
+
+  const handleDeleteAccount = async (password: string) => {
+      await deleteAccount(password);
+      setIsProfileSettingsOpen(false);
       setUser(null);
       setAppState(AppState.AUTH);
+      setNotice(null);
   };
 
   const handleUpdateUser = (updated: UserProfile) => {
@@ -88,11 +191,23 @@ export default function App() {
       setUser(finalUpdate);
   };
 
-  const handleGenerate = async (text: string, files: File[], mode: QuizMode, count: number, settings: QuizSettings) => {
-    setAppState(AppState.LOADING);
+  const startRequest = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller;
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setAppState(AppState.INPUT);
+  };
+
+  const handleGenerate = async (text: string, files: File[], mode: QuizMode, count: number, settings: QuizSettings, reuseCached: boolean = true) => {
+    const controller = startRequest();
     setError(null);
-    setActiveSettings(settings);
-    setActiveMode(mode);
+    setNotice(null);
     
     // Determine a topic name for history
     let topic = "General Review";
@@ -103,36 +218,291 @@ export default function App() {
     }
     setCurrentTopic(topic);
 
+    // Adaptive sessions pick up at the level the last one on this topic reached
+    if (settings.adaptiveDifficulty && user && mode !== 'EXAM') {
+        const startLevel = getStartingDifficulty(getQuizHistory(user.id), topic);
+        if (startLevel && startLevel !== settings.difficulty) {
+            settings = { ...settings, difficulty: startLevel };
+            setNotice(`Starting at ${startLevel.toLowerCase()}, where you left off on this topic.`);
+        }
+    }
+    setActiveSettings(settings);
+    setActiveMode(mode);
+    setRepeatStats(null);
+    const materialKey = await buildMaterialKey(text, files).catch(() => null);
+    sourceRef.current = { text, files, materialKey };
+
+    // Identical input and settings: a cache hit skips the loading screen entirely
+    const cacheKey = await describeProvider(controller.signal)
+        .then(provider => buildCacheKey('quiz', provider, text, files, mode, count, settings))
+        .catch(() => null);
+    if (user && cacheKey && reuseCached) {
+        const cached = await getCachedQuiz(user.id, cacheKey);
+        if (cached && cached.length > 0) {
+            setQuestions(cached);
+            setPendingQuestions(0);
+            tallyRepeats(cached, materialKey);
+            setNotice("Reusing your last set for this material. Pick \"Fresh questions\" for new ones.");
+            setAppState(AppState.QUIZ);
+            return;
+        }
+    }
+    if (controller.signal.aborted) return;
+    setAppState(AppState.LOADING);
+
+    // Start the quiz with the first batch; later batches are appended as they arrive
+    let started = false;
+    let remaining = count;
+    setPendingQuestions(count);
+
     try {
-      const generatedQuestions = await generateQuizFromContent(text, files, mode, count, settings);
-      setQuestions(generatedQuestions);
-      setAppState(AppState.QUIZ);
+      const generated = await generateQuizFromContent(text, files, mode, count, settings, {
+        signal: controller.signal,
+        avoidQuestions: user && materialKey ? getAvoidList(user.id, materialKey) : [],
+        onProgress: (batch, pending) => {
+          if (controller.signal.aborted) return;
+          // Adaptive follow-ups may be pending too, so count down rather than overwrite
+          const settled = remaining - pending;
+          remaining = pending;
+          setPendingQuestions(prev => Math.max(0, prev - settled));
+          if (batch.length === 0) return;
+          tallyRepeats(batch, materialKey);
+          setQuestions(prev => started ? [...prev, ...renumber(batch, prev.length)] : batch);
+          if (!started) {
+            started = true;
+            setAppState(AppState.QUIZ);
+          }
+        }
+      });
+      // A set missing questions would come back later looking complete
+      if (user && cacheKey && generated.questions.length >= count) cacheQuiz(user.id, cacheKey, generated.questions);
+      if (generated.failedCount > 0) {
+          setNotice(`${generated.failedCount} of ${count} questions couldn't be generated.`);
+      } else if (generated.regeneratedCount > 0) {
+          setNotice(`${generated.regeneratedCount} questions failed validation and were regenerated.`);
+      } else if (generated.duplicateCount > 0) {
+          setNotice(`${generated.duplicateCount} questions repeated earlier sessions and were dropped.`);
+      }
     } catch (err: any) {
+      setPendingQuestions(0);
+      if (isAbortError(err)) return;
       console.error(err);
-      setError("Failed to generate quiz. Please check your connection.");
+      setError(getAIErrorMessage(err, "generate quiz"));
       setAppState(AppState.INPUT);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
-  const handleSummarize = async (text: string, files: File[]) => {
-    setAppState(AppState.LOADING);
+  // Tally new vs. already-seen questions as they arrive
+  const tallyRepeats = (batch: QuizQuestion[], materialKey: string | null) => {
+    if (!user || !materialKey || batch.length === 0) return;
+    const { fresh, repeated } = classifyQuestions(user.id, materialKey, batch);
+    setRepeatStats(prev => ({ fresh: (prev?.fresh || 0) + fresh, repeated: (prev?.repeated || 0) + repeated }));
+  };
+
+  // Only questions the user actually saw count as asked, so an abandoned session
+  // doesn't keep its unseen questions out of the next one
+  const handleQuestionShown = (question: QuizQuestion) => {
+    const materialKey = sourceRef.current?.materialKey;
+    if (user && materialKey) addToBank(user.id, materialKey, [question]);
+  };
+
+  // Ids follow arrival order across the main batches and any follow-ups
+  const renumber = (batch: QuizQuestion[], offset: number) =>
+    batch.map((q, i) => ({ ...q, id: offset + i + 1 }));
+
+  // The adaptive level moved: fetch a few questions at the new level in the background
+  const handleDifficultyChange = async (difficulty: Difficulty, sectionIndex?: number) => {
+    const source = sourceRef.current;
+    if (!source || !activeSettings) return;
+    followUpAbortRef.current?.abort();
+    const controller = new AbortController();
+    followUpAbortRef.current = controller;
+
+    let remaining = FOLLOW_UP_COUNT;
+    setPendingQuestions(prev => prev + remaining);
+    try {
+      await generateQuizFromContent(source.text, source.files, activeMode, FOLLOW_UP_COUNT, { ...activeSettings, difficulty }, {
+        signal: controller.signal,
+        avoidQuestions: user && source.materialKey ? getAvoidList(user.id, source.materialKey) : [],
+        sectionIndex,
+        onProgress: (batch, pending) => {
+          if (controller.signal.aborted) return;
+          const settled = remaining - pending;
+          remaining = pending;
+          setPendingQuestions(prev => Math.max(0, prev - settled));
+          if (batch.length === 0) return;
+          tallyRepeats(batch, source.materialKey);
+          const followUps = batch.map(q => ({ ...q, followUp: true }));
+          setQuestions(prev => [...prev, ...renumber(followUps, prev.length)]);
+        }
+      });
+    } catch (err) {
+      // The quiz carries on with what it has
+      if (!isAbortError(err)) console.error('Follow-up questions failed', err);
+    } finally {
+      setPendingQuestions(prev => Math.max(0, prev - remaining));
+      if (followUpAbortRef.current === controller) followUpAbortRef.current = null;
+    }
+  };
+
+  const handleSummarize = async (text: string, files: File[], reuseCached: boolean = true) => {
+    const controller = startRequest();
     setError(null);
 
+    const cacheKey = await describeProvider(controller.signal)
+        .then(provider => buildCacheKey('summary', provider, text, files))
+        .catch(() => null);
+    if (user && cacheKey && reuseCached) {
+        const cached = await getCachedSummary(user.id, cacheKey);
+        if (cached) {
+            setSummaryText(cached);
+            setAppState(AppState.SUMMARY);
+            return;
+        }
+    }
+    if (controller.signal.aborted) return;
+    setAppState(AppState.LOADING);
+
     try {
-      const summary = await generateSummary(text, files);
+      const summary = await generateSummary(text, files, controller.signal);
+      if (user && cacheKey) cacheSummary(user.id, cacheKey, summary);
       setSummaryText(summary);
       setAppState(AppState.SUMMARY);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
-      setError("Failed to generate summary. Please check your connection.");
+      setError(getAIErrorMessage(err, "generate summary"));
       setAppState(AppState.INPUT);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
+  const handleAnswerGraded = (question: QuizQuestion, attempt: QuestionAttempt, grade: ReviewGrade) => {
+    if (!user) return;
+    recordReview(user.id, question, currentTopic, grade, isConfidentlyWrong(attempt));
+    recordAttempt(user.id, question, currentTopic, attempt);
+  };
+
+  const handleExplanationChecked = (question: QuizQuestion, feedback: { isCorrect: boolean; feedback: string }) => {
+    if (user) attachExplanationFeedback(user.id, question, feedback);
+  };
+
+  const handleOpenMistakes = () => {
+    if (user) {
+        setMistakes(getMistakes(user.id));
+        setAppState(AppState.MISTAKES);
+    }
+  };
+
+  const handleRemoveMistake = (id: string) => {
+    if (!user) return;
+    removeMistake(user.id, id);
+    setMistakes(getMistakes(user.id));
+  };
+
+  const handleStartMistakesQuiz = (entries: MistakeEntry[]) => {
+    if (entries.length === 0) return;
+    setError(null);
+    setNotice(null);
+    // Mistakes have no settings of their own; keep the last ones, without a timer
+    setActiveSettings(prev => prev ? { ...prev, timeLimit: 0 } : null);
+    setActiveMode('MISTAKES');
+    setCurrentTopic(`Mistakes: ${Array.from(new Set(entries.map(e => e.topic))).slice(0, 2).join(', ')}`);
+    sourceRef.current = null;
+    setRepeatStats(null);
+    setQuestions(buildMistakeSession(entries));
+    setPendingQuestions(0);
+    setAppState(AppState.QUIZ);
+  };
+
+  const handleStartReview = (settings: QuizSettings) => {
+    if (!user) return;
+    const cards = getDueCards(user.id);
+    if (cards.length === 0) return;
+
+    abortRef.current?.abort();
+    setError(null);
+    setNotice(null);
+    setActiveSettings(settings);
+    setActiveMode('REVIEW');
+    setCurrentTopic(`Review: ${Array.from(new Set(cards.map(c => c.topic))).slice(0, 2).join(', ')}`);
+    sourceRef.current = null;
+    setRepeatStats(null);
+    setQuestions(buildReviewSession(cards));
+    setPendingQuestions(0);
+    setAppState(AppState.QUIZ);
+  };
+
+  const handleQuizProgress = (progress: QuizProgress) => {
+    if (!user) return;
+    // The question set is large and only changes when a batch arrives, so it's only written then
+    if (checkpointQuestionsRef.current !== questions) {
+        saveCheckpointQuiz(user.id, {
+            questions,
+            mode: activeMode,
+            settings: activeSettings || undefined,
+            topic: currentTopic
+        });
+        checkpointQuestionsRef.current = questions;
+    }
+    saveCheckpointProgress(user.id, progress);
+    if (resumeCheckpoint) setResumeCheckpoint(null); // A new quiz replaces whatever was on offer
+  };
+
+  const handleTimerCheckpoint = (timeLeft: number, elapsedMs: number) => {
+    if (user) saveCheckpointTimer(user.id, timeLeft, elapsedMs);
+  };
+
+  const handleResumeQuiz = () => {
+    if (!resumeCheckpoint) return;
+    // Batches that were still generating are gone; the quiz resumes with what had arrived
+    sourceRef.current = null;
+    setRepeatStats(null);
+    setQuestions(resumeCheckpoint.questions);
+    setPendingQuestions(0);
+    setActiveMode(resumeCheckpoint.mode);
+    setActiveSettings(resumeCheckpoint.settings || null);
+    setCurrentTopic(resumeCheckpoint.topic);
+    setRestoredProgress(resumeCheckpoint.progress);
+    setResumeCheckpoint(null);
+    setNotice(null);
+    setAppState(AppState.QUIZ);
+  };
+
+  const discardCheckpoint = (userId: string) => {
+    clearCheckpoint(userId);
+    checkpointQuestionsRef.current = null;
+  };
+
+  const handleDiscardCheckpoint = () => {
+    if (user) discardCheckpoint(user.id);
+    setResumeCheckpoint(null);
+  };
+
+  const handleExitQuiz = (saveForLater: boolean) => {
+    if (user) {
+        if (!saveForLater) discardCheckpoint(user.id);
+        setResumeCheckpoint(saveForLater ? getCheckpoint(user.id) : null);
+    }
+    handleNew();
+  };
+
   const handleQuizFinish = (result: QuizResult) => {
+    // A boss can be lost before every batch has arrived
+    abortRef.current?.abort();
+    abortRef.current = null;
+    followUpAbortRef.current?.abort();
+    followUpAbortRef.current = null;
+    setPendingQuestions(0);
     setLastResult(result);
+    setRestoredProgress(undefined);
     
-    if (user && activeSettings) {
+    if (user) {
+        discardCheckpoint(user.id);
+
         // Save to History
         const historyItem: QuizHistoryItem = {
             id: Date.now().toString(),
@@ -142,7 +512,11 @@ export default function App() {
             totalQuestions: result.totalQuestions,
             timeTaken: result.timeTaken,
             mode: activeMode,
-            difficulty: activeSettings.difficulty
+            difficulty: activeSettings?.difficulty || 'MEDIUM', // A mistakes quiz can run before any settings were picked
+            finalDifficulty: result.finalDifficulty,
+            questions,
+            attempts: result.attempts,
+            flagged: result.flagged
         };
         saveQuizHistory(user.id, historyItem);
 
@@ -160,9 +534,30 @@ export default function App() {
     setAppState(AppState.QUIZ);
   };
 
+  const handlePracticeWrong = (wrong: QuizQuestion[]) => {
+    if (wrong.length === 0) return;
+    setNotice(null);
+    setActiveMode('MISTAKES');
+    setCurrentTopic(prev => prev.startsWith('Mistakes: ') ? prev : `Mistakes: ${prev}`);
+    sourceRef.current = null;
+    setRepeatStats(null);
+    setQuestions(wrong.map((q, i) => ({ ...q, id: i + 1 })));
+    setAppState(AppState.QUIZ);
+  };
+
   const handleNew = () => {
+    // Leaving mid-generation drops the batches still in flight
+    abortRef.current?.abort();
+    abortRef.current = null;
+    followUpAbortRef.current?.abort();
+    followUpAbortRef.current = null;
+    setPendingQuestions(0);
+    sourceRef.current = null;
+    setRepeatStats(null);
     setQuestions([]);
+    setNotice(null);
     setLastResult(null);
+    setRestoredProgress(undefined);
     setAppState(AppState.INPUT);
   };
   
@@ -174,6 +569,25 @@ export default function App() {
       }
   };
 
+  const handleOpenHistoryItem = (item: QuizHistoryItem) => {
+      setReplayItem(item);
+      setAppState(AppState.HISTORY_REPLAY);
+  };
+
+  const handleRetakeHistoryItem = (item: QuizHistoryItem) => {
+      if (!item.questions?.length) return;
+      setError(null);
+      setNotice(null);
+      setActiveSettings(prev => prev ? { ...prev, difficulty: item.difficulty } : null);
+      setActiveMode(item.mode);
+      setCurrentTopic(item.topic);
+      sourceRef.current = null;
+      setRepeatStats(null);
+      setQuestions(item.questions.map((q, i) => ({ ...q, id: i + 1 })));
+      setPendingQuestions(0);
+      setAppState(AppState.QUIZ);
+  };
+
   const handleBackFromHistory = () => {
       setAppState(AppState.INPUT);
   };
@@ -205,9 +619,10 @@ export default function App() {
             <ProfileDropdown 
                 user={user} 
                 isDarkMode={darkMode} 
-                toggleTheme={() => setDarkMode(!darkMode)}
+                toggleTheme={handleToggleTheme}
                 onOpenSettings={() => setIsProfileSettingsOpen(true)}
                 onOpenHistory={handleOpenHistory}
+                onOpenMistakes={handleOpenMistakes}
                 onLogout={handleLogout}
             />
             </div>
@@ -223,6 +638,10 @@ export default function App() {
                 onClose={() => setIsProfileSettingsOpen(false)}
                 user={user}
                 onUpdateUser={handleUpdateUser}
+                onResendVerification={sendVerificationEmail}
+                onChangePassword={changePassword}
+                onChangeEmail={handleChangeEmail}
+                onDeleteAccount={handleDeleteAccount}
             />
           )}
 
@@ -277,6 +696,14 @@ export default function App() {
                <p className="text-[10px] text-slate-400 dark:text-slate-500 font-bold uppercase tracking-widest animate-pulse">
                    Preparing your study set
                </p>
+
+               <button
+                   onClick={handleCancel}
+                   className="mt-6 flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+               >
+                   <X size={12} />
+                   <span>Cancel</span>
+               </button>
             </div>
           )}
 
@@ -289,7 +716,35 @@ export default function App() {
               </div>
           )}
 
-          {appState === AppState.AUTH && (
+          {/* Notice State */}
+          {notice && !error && appState !== AppState.AUTH && appState !== AppState.LOADING && (
+              <div className="absolute bottom-24 left-4 right-4 z-50 bg-[#FBBC05] text-slate-900 px-3 py-2.5 rounded-xl flex items-center gap-3 animate-in slide-up shadow-md">
+                  <div className="w-1.5 h-1.5 rounded-full bg-slate-900 shrink-0"></div>
+                  <p className="text-xs font-bold flex-1">{notice}</p>
+                  <button onClick={() => setNotice(null)} className="font-bold opacity-60 hover:opacity-100 p-1">✕</button>
+              </div>
+          )}
+
+          {/* Resume Prompt */}
+          {resumeCheckpoint && appState === AppState.INPUT && (
+              <div className="absolute bottom-24 left-4 right-4 z-40 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700 px-4 py-3 rounded-2xl flex items-center gap-3 animate-in slide-up shadow-lg">
+                  <PlayCircle size={22} className="text-[#4285F4] shrink-0" />
+                  <div className="flex-1 min-w-0">
+                      <p className="text-xs font-bold text-slate-800 dark:text-white">Resume your quiz</p>
+                      <p className="text-[10px] font-semibold text-slate-400 dark:text-slate-500 truncate">
+                          {resumeCheckpoint.topic} • Question {resumeCheckpoint.progress.currentIndex + 1} of {resumeCheckpoint.questions.length}
+                      </p>
+                  </div>
+                  <button onClick={handleDiscardCheckpoint} className="text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 px-2 py-1">
+                      Discard
+                  </button>
+                  <button onClick={handleResumeQuiz} className="text-[10px] font-bold uppercase tracking-wider bg-[#4285F4] hover:bg-[#3367d6] text-white px-3 py-1.5 rounded-lg transition-colors">
+                      Resume
+                  </button>
+              </div>
+          )}
+
+          {appState === AppState.AUTH && !isRestoringSession && (
              <AuthView onLogin={handleLogin} onRegister={handleRegister} error={error} />
           )}
 
@@ -297,6 +752,8 @@ export default function App() {
             <InputView 
               onGenerate={handleGenerate} 
               onSummarize={handleSummarize}
+              onStartReview={handleStartReview}
+              dueCount={dueCount}
               isGenerating={appState === AppState.LOADING} 
               user={user}
             />
@@ -305,8 +762,17 @@ export default function App() {
           {appState === AppState.QUIZ && (
             <QuizView 
               questions={questions} 
+              pendingCount={pendingQuestions}
               onFinish={handleQuizFinish} 
-              onExit={handleNew}
+              onAnswerGraded={handleAnswerGraded}
+              onQuestionShown={handleQuestionShown}
+              onExplanationChecked={handleExplanationChecked}
+              onExit={handleExitQuiz}
+              initialProgress={restoredProgress}
+              onProgress={handleQuizProgress}
+              onTimerCheckpoint={handleTimerCheckpoint}
+              onDifficultyChange={handleDifficultyChange}
+              repeatStats={repeatStats}
               timeLimit={activeSettings?.timeLimit}
               mode={activeMode}
               settings={activeSettings || undefined}
@@ -316,13 +782,32 @@ export default function App() {
           {appState === AppState.RESULTS && lastResult && (
             <ResultView 
               result={lastResult} 
+              questions={questions}
               onRetry={handleRetry} 
               onNew={handleNew} 
+              onPracticeWrong={handlePracticeWrong}
             />
           )}
 
           {appState === AppState.HISTORY && (
-              <HistoryView history={history} onBack={handleBackFromHistory} />
+              <HistoryView history={history} onBack={handleBackFromHistory} onOpenItem={handleOpenHistoryItem} />
+          )}
+
+          {appState === AppState.HISTORY_REPLAY && replayItem && (
+              <HistoryReplayView
+                  item={replayItem}
+                  onBack={() => setAppState(AppState.HISTORY)}
+                  onRetake={handleRetakeHistoryItem}
+              />
+          )}
+
+          {appState === AppState.MISTAKES && (
+              <MistakesView
+                  mistakes={mistakes}
+                  onBack={handleBackFromHistory}
+                  onStartQuiz={handleStartMistakesQuiz}
+                  onRemove={handleRemoveMistake}
+              />
           )}
           
           {appState === AppState.SUMMARY && (
@@ -1,7 +1,9 @@
 
 import React, { useState } from 'react';
 import { Button } from './Button';
+import { PasswordRules } from './PasswordRules';
 import { BrainCircuit, Mail, Lock, User, ArrowRight, Sparkles } from 'lucide-react';
+import { PASSWORD_RULES } from '../services/passwordService';
 
 interface AuthViewProps {
   onLogin: (email: string, password: string) => Promise<void>;
@@ -18,6 +20,9 @@ export const AuthView: React.FC<AuthViewProps> = ({ onLogin, onRegister, error }
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
 
+  // Only new passwords have to meet the rules; existing ones still sign in
+  const isPasswordWeak = !isLogin && PASSWORD_RULES.some(rule => !rule.test(password));
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -117,19 +122,20 @@ export const AuthView: React.FC<AuthViewProps> = ({ onLogin, onRegister, error }
                       <input 
                         type="password" 
                         required
-                        minLength={6}
                         value={password}
                         onChange={(e) => setPassword(e.target.value)}
                         className="w-full pl-9 pr-3 py-2.5 bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl font-semibold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-[#4285F4]/20 focus:border-[#4285F4] outline-none transition-all"
                         placeholder="Enter your password"
                       />
                    </div>
+                   {!isLogin && <PasswordRules password={password} />}
                </div>
 
                <Button 
                  fullWidth 
                  type="submit" 
                  isLoading={isLoading}
+                 disabled={isPasswordWeak}
                  className="mt-4 py-2.5 rounded-xl bg-[#4285F4] hover:bg-[#3367d6] text-white shadow-md shadow-blue-200 dark:shadow-blue-900/30 font-bold text-sm transition-transform active:scale-[0.98]"
                  icon={!isLoading ? (isLogin ? <ArrowRight size={16} /> : <Sparkles size={16} />) : undefined}
                >
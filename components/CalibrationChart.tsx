@@ -0,0 +1,43 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { CalibrationPoint } from '../services/calibration';
+
+interface CalibrationChartProps {
+  points: CalibrationPoint[];
+}
+
+// More than this below the expected accuracy reads as overconfident
+const OVERCONFIDENT_GAP = 0.15;
+
+// Accuracy at each confidence level, next to what a well-calibrated learner would score
+export const CalibrationChart: React.FC<CalibrationChartProps> = ({ points }) => {
+  const data = points.map(p => ({
+    label: `${p.label} (${p.count})`,
+    accuracy: Math.round(p.accuracy * 100),
+    expected: Math.round(p.expected * 100),
+    count: p.count,
+    overconfident: p.count > 0 && p.accuracy < p.expected - OVERCONFIDENT_GAP
+  }));
+
+  return (
+    <div className="h-44 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} margin={{ top: 8, right: 8, left: -24, bottom: 0 }} barGap={2}>
+                <XAxis dataKey="label" tick={{ fontSize: 10, fontWeight: 700, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+                <YAxis domain={[0, 100]} ticks={[0, 50, 100]} tick={{ fontSize: 10, fill: '#94a3b8' }} axisLine={false} tickLine={false} unit="%" />
+                <Tooltip
+                    cursor={{ fill: 'rgba(148, 163, 184, 0.1)' }}
+                    contentStyle={{ borderRadius: 12, fontSize: 11, fontWeight: 700 }}
+                    formatter={(value: number, name: string) => [`${value}%`, name === 'accuracy' ? 'You' : 'Calibrated']}
+                />
+                <Bar dataKey="expected" fill="#e2e8f0" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="accuracy" radius={[4, 4, 0, 0]}>
+                    {data.map((d, i) => (
+                        <Cell key={i} fill={d.count === 0 ? '#cbd5e1' : d.overconfident ? '#EA4335' : '#34A853'} />
+                    ))}
+                </Bar>
+            </BarChart>
+        </ResponsiveContainer>
+    </div>
+  );
+};
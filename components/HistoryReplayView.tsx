@@ -0,0 +1,62 @@
+import React from 'react';
+import { QuizHistoryItem } from '../types';
+import { Button } from './Button';
+import { QuestionReviewCard } from './QuestionReviewCard';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+
+interface HistoryReplayViewProps {
+  item: QuizHistoryItem;
+  onBack: () => void;
+  onRetake: (item: QuizHistoryItem) => void;
+}
+
+// Read-only walk through a finished session, question by question
+export const HistoryReplayView: React.FC<HistoryReplayViewProps> = ({ item, onBack, onRetake }) => {
+  const questions = item.questions || [];
+
+  return (
+    <div className="flex flex-col h-full bg-slate-50 dark:bg-slate-900 relative animate-in fade-in transition-colors">
+
+      {/* Header */}
+      <div className="bg-white dark:bg-slate-800 px-6 py-4 shadow-sm z-20 border-b border-slate-100 dark:border-slate-700 flex items-center justify-between sticky top-0">
+         <div className="flex items-center gap-3 min-w-0">
+             <button
+               onClick={onBack}
+               className="p-2 -ml-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition-colors text-slate-500 dark:text-slate-400"
+             >
+                 <ArrowLeft size={20} />
+             </button>
+             <div className="min-w-0">
+                <h2 className="text-xl font-bold text-slate-900 dark:text-white leading-none truncate">{item.topic}</h2>
+                <span className="text-xs font-semibold text-slate-400 dark:text-slate-500">
+                    {item.score}/{item.totalQuestions} • {item.mode.replace('_', ' ')} • {item.timeTaken}s
+                </span>
+             </div>
+         </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-6 pb-28 space-y-4">
+        {questions.map((question, idx) => (
+            <QuestionReviewCard
+                key={idx}
+                question={question}
+                attempt={item.attempts?.[idx] || null}
+                index={idx}
+                flagged={item.flagged?.includes(idx)}
+            />
+        ))}
+      </div>
+
+      <div className="absolute bottom-0 left-0 right-0 p-4 bg-white dark:bg-slate-800 border-t border-slate-100 dark:border-slate-700 z-30">
+          <Button
+              fullWidth
+              onClick={() => onRetake(item)}
+              icon={<RotateCcw size={16} />}
+              className="bg-[#4285F4] hover:bg-[#3367d6] text-white rounded-xl py-3 shadow-lg shadow-blue-200 dark:shadow-blue-900/20 text-sm font-bold"
+          >
+              Retake this set
+          </Button>
+      </div>
+    </div>
+  );
+};
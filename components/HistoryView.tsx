@@ -1,14 +1,18 @@
 
 import React, { useMemo } from 'react';
 import { QuizHistoryItem } from '../types';
-import { ArrowLeft, Clock, Calendar, BarChart2, Target, Zap, BrainCircuit, ListChecks, CheckSquare, Type, GalleryVerticalEnd, MinusSquare } from 'lucide-react';
+import { CalibrationChart } from './CalibrationChart';
+import { buildCalibration, findConfidentMisses } from '../services/calibration';
+import { formatCorrectAnswer } from '../services/grading';
+import { ArrowLeft, Clock, Calendar, BarChart2, Target, Zap, BrainCircuit, ListChecks, CheckSquare, Type, GalleryVerticalEnd, MinusSquare, Repeat, NotebookPen, GraduationCap, Flag, Gauge, AlertTriangle } from 'lucide-react';
 
 interface HistoryViewProps {
   history: QuizHistoryItem[];
   onBack: () => void;
+  onOpenItem: (item: QuizHistoryItem) => void;
 }
 
-export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) => {
+export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack, onOpenItem }) => {
   
   const stats = useMemo(() => {
     if (history.length === 0) return null;
@@ -21,6 +25,10 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
     return { totalQuizzes, averageScore, totalTime };
   }, [history]);
 
+  const calibration = useMemo(() => buildCalibration(history.flatMap(item => item.attempts || [])), [history]);
+  const confidentMisses = useMemo(() => findConfidentMisses(history).slice(0, 5), [history]);
+  const hasRatings = calibration.some(p => p.count > 0);
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString('en-US', {
       month: 'short',
@@ -38,6 +46,9 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
         case 'SHORT_ANSWER': return <Type size={14} />;
         case 'FLASHCARD': return <GalleryVerticalEnd size={14} />;
         case 'FILL_IN_THE_BLANK': return <MinusSquare size={14} />;
+        case 'REVIEW': return <Repeat size={14} />;
+        case 'MISTAKES': return <NotebookPen size={14} />;
+        case 'EXAM': return <GraduationCap size={14} />;
         default: return <Zap size={14} />;
     }
   };
@@ -81,6 +92,34 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
             </div>
         )}
 
+        {/* Calibration */}
+        {hasRatings && (
+            <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl border border-slate-100 dark:border-slate-700 shadow-sm mb-8">
+                <div className="flex items-center gap-1.5 text-indigo-500 mb-2">
+                    <Gauge size={14} />
+                    <span className="text-[10px] font-bold uppercase tracking-wide">Confidence vs Accuracy</span>
+                </div>
+                <CalibrationChart points={calibration} />
+
+                {confidentMisses.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-slate-50 dark:border-slate-700/50 space-y-2">
+                        <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wide text-[#EA4335]">
+                            <AlertTriangle size={12} />
+                            Sure, but wrong: review these first
+                        </span>
+                        {confidentMisses.map((miss, idx) => (
+                            <div key={idx} className="text-xs">
+                                <p className="font-bold text-slate-800 dark:text-slate-100 line-clamp-1">{miss.question.question}</p>
+                                <p className="text-slate-400 dark:text-slate-500 font-semibold line-clamp-1">
+                                    <span className="text-[#EA4335]">{miss.attempt.response || '—'}</span> → <span className="text-[#34A853]">{formatCorrectAnswer(miss.question)}</span>
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        )}
+
         {/* Timeline */}
         <div className="space-y-4">
             {history.length === 0 ? (
@@ -95,7 +134,9 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
                 history.map((item, idx) => (
                     <div 
                         key={item.id} 
-                        className="bg-white dark:bg-slate-800 p-5 rounded-2xl border border-slate-100 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-500 transition-all shadow-sm hover:shadow-md group animate-in slide-up"
+                        // Entries saved before replays existed have no questions to show
+                        onClick={() => item.questions?.length && onOpenItem(item)}
+                        className={`bg-white dark:bg-slate-800 p-5 rounded-2xl border border-slate-100 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-500 transition-all shadow-sm hover:shadow-md group animate-in slide-up ${item.questions?.length ? 'cursor-pointer' : ''}`}
                         style={{ animationDelay: `${idx * 50}ms` }}
                     >
                         <div className="flex justify-between items-start mb-3">
@@ -115,6 +156,14 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
                                     }`}>
                                         {item.difficulty}
                                     </span>
+                                    {item.finalDifficulty && item.finalDifficulty !== item.difficulty && (
+                                        <span className={`uppercase ${
+                                            item.finalDifficulty === 'EASY' ? 'text-green-500' : 
+                                            item.finalDifficulty === 'MEDIUM' ? 'text-yellow-500' : 'text-red-500'
+                                        }`}>
+                                            → {item.finalDifficulty}
+                                        </span>
+                                    )}
                                 </div>
                             </div>
                             <div className={`flex flex-col items-end`}>
@@ -134,6 +183,12 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
                                  {getModeIcon(item.mode)}
                                  {item.mode.replace('_', ' ')}
                              </div>
+                             {!!item.flagged?.length && (
+                                 <div className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-[#FBBC05]/10 text-[#b47a00] dark:text-[#f9ab00] text-[10px] font-bold uppercase tracking-wide">
+                                     <Flag size={12} />
+                                     {item.flagged.length} flagged
+                                 </div>
+                             )}
                              <div className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 text-[10px] font-bold uppercase tracking-wide ml-auto">
                                  <Clock size={12} />
                                  {item.timeTaken}s
@@ -1,22 +1,25 @@
 
 import React, { useState, useRef } from 'react';
 import { Button } from './Button';
-import { X, Sparkles, Shuffle, ListChecks, CheckSquare, Type, Dice5, FileText, SlidersHorizontal, BrainCircuit, Paperclip, GalleryVerticalEnd, MinusSquare, FileText as FileIcon, Sword, Flame, Clock } from 'lucide-react';
+import { X, Sparkles, Shuffle, ListChecks, CheckSquare, Type, Dice5, FileText, SlidersHorizontal, BrainCircuit, Paperclip, GalleryVerticalEnd, MinusSquare, FileText as FileIcon, Sword, Flame, Clock, History, RefreshCw, Repeat, ChevronRight, GraduationCap } from 'lucide-react';
 import { QuizMode, QuizSettings, QuestionType, UserProfile, AIPersonality } from '../types';
 import { SettingsModal } from './SettingsModal';
 
 interface InputViewProps {
-  onGenerate: (text: string, files: File[], mode: QuizMode, count: number, settings: QuizSettings) => void;
-  onSummarize: (text: string, files: File[]) => void;
+  onGenerate: (text: string, files: File[], mode: QuizMode, count: number, settings: QuizSettings, reuseCached: boolean) => void;
+  onSummarize: (text: string, files: File[], reuseCached: boolean) => void;
+  onStartReview: (settings: QuizSettings) => void;
+  dueCount: number; // Spaced repetition cards due now
   isGenerating: boolean;
   user?: UserProfile | null;
 }
 
-export const InputView: React.FC<InputViewProps> = ({ onGenerate, onSummarize, isGenerating, user }) => {
+export const InputView: React.FC<InputViewProps> = ({ onGenerate, onSummarize, onStartReview, dueCount, isGenerating, user }) => {
   const [text, setText] = useState('');
   const [files, setFiles] = useState<File[]>([]);
   const [questionCount, setQuestionCount] = useState<number>(5);
   const [quizMode, setQuizMode] = useState<QuizMode>('MIXED');
+  const [reuseCached, setReuseCached] = useState(true); // Reuse the last set generated from identical input
   
   // Settings State
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -25,7 +28,8 @@ export const InputView: React.FC<InputViewProps> = ({ onGenerate, onSummarize, i
     timeLimit: 0,
     allowedTypes: [QuestionType.MULTIPLE_CHOICE, QuestionType.TRUE_FALSE, QuestionType.SHORT_ANSWER, QuestionType.MATCHING, QuestionType.ORDERING, QuestionType.FILL_IN_THE_BLANK, QuestionType.FLASHCARD],
     personality: user?.stats?.unlockedPersonas.includes(AIPersonality.COACH) ? AIPersonality.PROFESSOR : AIPersonality.PROFESSOR, // Default
-    enableExplainItBack: false
+    enableExplainItBack: false,
+    enableAIGrading: true
   });
   
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -47,12 +51,12 @@ export const InputView: React.FC<InputViewProps> = ({ onGenerate, onSummarize, i
 
   const handleGenerate = () => {
     if (!text.trim() && files.length === 0) return;
-    onGenerate(text, files, quizMode, questionCount, settings);
+    onGenerate(text, files, quizMode, questionCount, settings, reuseCached);
   };
   
   const handleSummarizeAction = () => {
     if (!text.trim() && files.length === 0) return;
-    onSummarize(text, files);
+    onSummarize(text, files, reuseCached);
   };
 
   const handleSurpriseMe = () => {
@@ -71,6 +75,7 @@ export const InputView: React.FC<InputViewProps> = ({ onGenerate, onSummarize, i
   const quizModes: { id: QuizMode; label: string; sub: string; icon: React.ReactNode; color: string; bg: string; }[] = [
     { id: 'MIXED', label: 'Mixed', sub: 'Variety', icon: <Shuffle size={16} />, color: 'text-[#FBBC05]', bg: 'bg-[#FBBC05]' },
     { id: 'BOSS_BATTLE', label: 'Boss Battle', sub: 'RPG Mode', icon: <Sword size={16} />, color: 'text-red-500', bg: 'bg-red-500' },
+    { id: 'EXAM', label: 'Exam', sub: 'Timed', icon: <GraduationCap size={16} />, color: 'text-slate-700 dark:text-slate-200', bg: 'bg-slate-700' },
     { id: 'FLASHCARD', label: 'Flashcards', sub: 'Flip', icon: <GalleryVerticalEnd size={16} />, color: 'text-pink-500', bg: 'bg-pink-500' },
     { id: 'CONCEPTUAL', label: 'Deep Work', sub: 'Logic', icon: <BrainCircuit size={16} />, color: 'text-purple-500', bg: 'bg-purple-500' },
     { id: 'FILL_IN_THE_BLANK', label: 'Blanks', sub: 'Recall', icon: <MinusSquare size={16} />, color: 'text-cyan-500', bg: 'bg-cyan-500' },
@@ -125,6 +130,26 @@ export const InputView: React.FC<InputViewProps> = ({ onGenerate, onSummarize, i
             </div>
         </div>
 
+        {/* Due for Review */}
+        {dueCount > 0 && (
+            <button
+                onClick={() => onStartReview(settings)}
+                disabled={isGenerating}
+                className="w-full mb-5 flex items-center gap-3 p-3 rounded-2xl bg-[#34A853]/10 border border-[#34A853]/20 text-left hover:bg-[#34A853]/15 transition-all active:scale-[0.99] animate-in fade-in"
+            >
+                <div className="bg-[#34A853] text-white p-2 rounded-lg shrink-0">
+                    <Repeat size={16} />
+                </div>
+                <div className="flex-1">
+                    <h3 className="text-sm font-bold text-slate-800 dark:text-white">Due for review</h3>
+                    <p className="text-[10px] text-slate-500 dark:text-slate-400 font-medium">
+                        {dueCount} question{dueCount === 1 ? '' : 's'} ready to revisit before you forget them
+                    </p>
+                </div>
+                <ChevronRight size={16} className="text-[#34A853]" />
+            </button>
+        )}
+
         {/* Compact Source Input */}
         <section className="mb-5">
             <div className="flex items-center justify-between mb-2 px-1">
@@ -203,7 +228,7 @@ export const InputView: React.FC<InputViewProps> = ({ onGenerate, onSummarize, i
                </button>
              </div>
 
-             <div className="flex overflow-x-auto pb-2 gap-2 -mx-4 px-4 md:mx-0 md:px-0 md:grid md:grid-cols-4 lg:grid-cols-7 md:overflow-visible md:pb-0 no-scrollbar snap-x snap-mandatory">
+             <div className="flex overflow-x-auto pb-2 gap-2 -mx-4 px-4 md:mx-0 md:px-0 md:grid md:grid-cols-4 lg:grid-cols-8 md:overflow-visible md:pb-0 no-scrollbar snap-x snap-mandatory">
                 {quizModes.map((mode) => {
                     const isActive = quizMode === mode.id;
                     const isBoss = mode.id === 'BOSS_BATTLE';
@@ -248,6 +273,23 @@ export const InputView: React.FC<InputViewProps> = ({ onGenerate, onSummarize, i
                     className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-[#4285F4] hover:accent-[#3367d6] transition-all"
                 />
              </div>
+
+             {/* Cache Preference */}
+             <div className="flex p-1 bg-slate-50 dark:bg-slate-900 rounded-xl border border-slate-100 dark:border-slate-700 mt-2">
+                {[
+                    { reuse: true, label: 'Reuse last set', icon: <History size={12} /> },
+                    { reuse: false, label: 'Fresh questions', icon: <RefreshCw size={12} /> }
+                ].map(option => (
+                    <button
+                        key={option.label}
+                        onClick={() => setReuseCached(option.reuse)}
+                        className={`flex-1 flex items-center justify-center gap-1.5 py-1.5 text-[10px] font-bold rounded-lg transition-all ${reuseCached === option.reuse ? 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 shadow-sm' : 'text-slate-400 dark:text-slate-500 hover:text-slate-600'}`}
+                    >
+                        {option.icon}
+                        {option.label}
+                    </button>
+                ))}
+             </div>
         </section>
 
         {/* Compact Action Buttons */}
@@ -261,7 +303,7 @@ export const InputView: React.FC<InputViewProps> = ({ onGenerate, onSummarize, i
                 className={`flex-2 bg-[#4285F4] hover:bg-[#3367d6] text-white shadow-md shadow-blue-200 dark:shadow-blue-900/20 py-3 text-base font-bold rounded-xl transition-all active:scale-[0.98] ${isGenerating ? 'animate-pulse' : ''}`}
                 icon={quizMode === 'BOSS_BATTLE' ? <Sword size={16} /> : <Sparkles size={16} className="text-blue-100" />}
             >
-                {isGenerating ? 'Analyzing...' : (quizMode === 'BOSS_BATTLE' ? 'Fight Boss' : 'Generate Quiz')}
+                {isGenerating ? 'Analyzing...' : (quizMode === 'BOSS_BATTLE' ? 'Fight Boss' : quizMode === 'EXAM' ? 'Start Exam' : 'Generate Quiz')}
             </Button>
             
             <Button 
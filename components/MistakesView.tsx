@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { MistakeEntry, QuestionType } from '../types';
+import { Button } from './Button';
+import { MASTERY_STREAK, isConfidentMistake } from '../services/mistakeService';
+import { formatCorrectAnswer } from '../services/grading';
+import { ArrowLeft, NotebookPen, XCircle, CheckCircle2, Trash2, Play, BrainCircuit, AlertTriangle } from 'lucide-react';
+
+interface MistakesViewProps {
+  mistakes: MistakeEntry[];
+  onBack: () => void;
+  onStartQuiz: (entries: MistakeEntry[]) => void;
+  onRemove: (id: string) => void;
+}
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+  [QuestionType.MULTIPLE_CHOICE]: 'Choices',
+  [QuestionType.TRUE_FALSE]: 'True/False',
+  [QuestionType.SHORT_ANSWER]: 'Short Answer',
+  [QuestionType.ORDERING]: 'Ordering',
+  [QuestionType.MATCHING]: 'Matching',
+  [QuestionType.FILL_IN_THE_BLANK]: 'Blanks',
+  [QuestionType.FLASHCARD]: 'Flashcards'
+};
+
+export const MistakesView: React.FC<MistakesViewProps> = ({ mistakes, onBack, onStartQuiz, onRemove }) => {
+  const [topicFilter, setTopicFilter] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<QuestionType | null>(null);
+
+  const topics = useMemo(() => Array.from(new Set(mistakes.map(m => m.topic))), [mistakes]);
+  const types = useMemo(() => Array.from(new Set(mistakes.map(m => m.question.type))), [mistakes]);
+
+  const filtered = mistakes.filter(m =>
+    (!topicFilter || m.topic === topicFilter) && (!typeFilter || m.question.type === typeFilter)
+  );
+
+  const chipClass = (active: boolean) =>
+    `px-2.5 py-1 rounded-lg text-[10px] font-bold whitespace-nowrap transition-all border ${active
+      ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900 border-transparent'
+      : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-slate-300'}`;
+
+  return (
+    <div className="flex flex-col h-full bg-slate-50 dark:bg-slate-900 relative animate-in fade-in transition-colors">
+
+      {/* Header */}
+      <div className="bg-white dark:bg-slate-800 px-6 py-4 shadow-sm z-20 border-b border-slate-100 dark:border-slate-700 flex items-center justify-between sticky top-0">
+         <div className="flex items-center gap-3">
+             <button
+               onClick={onBack}
+               className="p-2 -ml-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition-colors text-slate-500 dark:text-slate-400"
+             >
+                 <ArrowLeft size={20} />
+             </button>
+             <div>
+                <h2 className="text-xl font-bold text-slate-900 dark:text-white leading-none">Mistakes</h2>
+                <span className="text-xs font-semibold text-slate-400 dark:text-slate-500">Answer one right {MASTERY_STREAK} times in a row to clear it</span>
+             </div>
+         </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-6 pb-28">
+
+        {/* Filters */}
+        {mistakes.length > 0 && (
+            <div className="space-y-2 mb-6">
+                <div className="flex gap-2 overflow-x-auto no-scrollbar">
+                    <button onClick={() => setTopicFilter(null)} className={chipClass(topicFilter === null)}>All topics</button>
+                    {topics.map(topic => (
+                        <button key={topic} onClick={() => setTopicFilter(topic)} className={chipClass(topicFilter === topic)}>
+                            {topic.length > 30 ? topic.slice(0, 30) + '...' : topic}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-2 overflow-x-auto no-scrollbar">
+                    <button onClick={() => setTypeFilter(null)} className={chipClass(typeFilter === null)}>All types</button>
+                    {types.map(type => (
+                        <button key={type} onClick={() => setTypeFilter(type)} className={chipClass(typeFilter === type)}>
+                            {TYPE_LABELS[type]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        <div className="space-y-4">
+            {filtered.length === 0 ? (
+                <div className="text-center py-20 text-slate-400 dark:text-slate-500">
+                    <div className="w-16 h-16 bg-slate-100 dark:bg-slate-800 rounded-full flex items-center justify-center mx-auto mb-4">
+                        <NotebookPen size={24} />
+                    </div>
+                    <p className="font-semibold">{mistakes.length === 0 ? 'No mistakes yet.' : 'Nothing matches these filters.'}</p>
+                    <p className="text-sm">{mistakes.length === 0 ? 'Questions you get wrong will show up here.' : 'Try another topic or type.'}</p>
+                </div>
+            ) : (
+                filtered.map((entry, idx) => {
+                    const last = entry.attempts[entry.attempts.length - 1];
+                    return (
+                        <div
+                            key={entry.id}
+                            className="bg-white dark:bg-slate-800 p-5 rounded-2xl border border-slate-100 dark:border-slate-700 shadow-sm animate-in slide-up"
+                            style={{ animationDelay: `${idx * 50}ms` }}
+                        >
+                            <div className="flex justify-between items-start gap-3 mb-3">
+                                <div>
+                                    <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-wide">
+                                        {TYPE_LABELS[entry.question.type]} • {entry.topic}
+                                    </span>
+                                    {isConfidentMistake(entry) && (
+                                        <span className="ml-2 inline-flex items-center gap-0.5 text-[10px] font-bold text-[#EA4335]">
+                                            <AlertTriangle size={10} /> Confidently wrong
+                                        </span>
+                                    )}
+                                    <h3 className="font-bold text-slate-800 dark:text-slate-100 text-sm leading-snug mt-0.5">{entry.question.question}</h3>
+                                </div>
+                                <button
+                                    onClick={() => onRemove(entry.id)}
+                                    className="p-1.5 rounded-lg text-slate-300 dark:text-slate-600 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors shrink-0"
+                                    title="Remove from notebook"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+
+                            <div className="space-y-2 text-xs">
+                                <div className="flex items-start gap-2 text-[#EA4335]">
+                                    <XCircle size={14} className="shrink-0 mt-0.5" />
+                                    <span className="font-semibold">{last?.timedOut ? 'Ran out of time' : (last?.response || 'No answer')}</span>
+                                </div>
+                                <div className="flex items-start gap-2 text-[#34A853]">
+                                    <CheckCircle2 size={14} className="shrink-0 mt-0.5" />
+                                    <span className="font-semibold">{formatCorrectAnswer(entry.question)}</span>
+                                </div>
+                                {entry.question.explanation && (
+                                    <p className="text-slate-500 dark:text-slate-400 leading-relaxed pt-1">{entry.question.explanation}</p>
+                                )}
+                                {last?.explanationFeedback && (
+                                    <div className="flex items-start gap-2 bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300 p-2 rounded-lg">
+                                        <BrainCircuit size={14} className="shrink-0 mt-0.5" />
+                                        <span className="font-medium">{last.explanationFeedback.feedback}</span>
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="flex items-center justify-between pt-3 mt-3 border-t border-slate-50 dark:border-slate-700/50 text-[10px] font-bold uppercase tracking-wide text-slate-400 dark:text-slate-500">
+                                <span>Missed {entry.attempts.length}×</span>
+                                <div className="flex items-center gap-1">
+                                    {Array.from({ length: MASTERY_STREAK }).map((_, i) => (
+                                        <div key={i} className={`w-2 h-2 rounded-full ${i < entry.correctStreak ? 'bg-[#34A853]' : 'bg-slate-200 dark:bg-slate-700'}`} />
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })
+            )}
+        </div>
+      </div>
+
+      {filtered.length > 0 && (
+          <div className="absolute bottom-0 left-0 right-0 p-4 bg-white dark:bg-slate-800 border-t border-slate-100 dark:border-slate-700 z-30">
+              <Button
+                  fullWidth
+                  onClick={() => onStartQuiz(filtered)}
+                  icon={<Play size={16} />}
+                  className="bg-[#EA4335] hover:bg-red-600 text-white rounded-xl py-3 shadow-lg shadow-red-200 dark:shadow-red-900/20 text-sm font-bold"
+              >
+                  Quiz my mistakes ({filtered.length})
+              </Button>
+          </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { CheckCircle2, Circle } from 'lucide-react';
+import { PASSWORD_RULES } from '../services/passwordService';
+
+interface PasswordRulesProps {
+  password: string;
+}
+
+// Live checklist of the strength rules a new password has to meet
+export const PasswordRules: React.FC<PasswordRulesProps> = ({ password }) => (
+  <ul className="pt-1 ml-1 space-y-0.5">
+    {PASSWORD_RULES.map(rule => {
+      const passed = rule.test(password);
+      return (
+        <li key={rule.label} className={`flex items-center gap-1.5 text-[10px] font-semibold transition-colors ${passed ? 'text-green-600 dark:text-green-400' : 'text-slate-400 dark:text-slate-500'}`}>
+          {passed ? <CheckCircle2 size={11} /> : <Circle size={11} />}
+          {rule.label}
+        </li>
+      );
+    })}
+  </ul>
+);
@@ -1,7 +1,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { UserProfile } from '../types';
-import { Settings, Moon, Sun, LogOut, User, ChevronDown, History } from 'lucide-react';
+import { Settings, Moon, Sun, LogOut, User, ChevronDown, History, NotebookPen } from 'lucide-react';
 
 interface ProfileDropdownProps {
   user: UserProfile;
@@ -9,6 +9,7 @@ interface ProfileDropdownProps {
   toggleTheme: () => void;
   onOpenSettings: () => void;
   onOpenHistory: () => void;
+  onOpenMistakes: () => void;
   onLogout: () => void;
 }
 
@@ -18,6 +19,7 @@ export const ProfileDropdown: React.FC<ProfileDropdownProps> = ({
   toggleTheme, 
   onOpenSettings,
   onOpenHistory,
+  onOpenMistakes,
   onLogout
 }) => {
   const [isOpen, setIsOpen] = useState(false);
@@ -70,6 +72,17 @@ export const ProfileDropdown: React.FC<ProfileDropdownProps> = ({
               <span>History</span>
             </button>
 
+            <button 
+              onClick={() => {
+                onOpenMistakes();
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors text-sm font-semibold"
+            >
+              <NotebookPen size={18} />
+              <span>Mistakes</span>
+            </button>
+
             <button 
               onClick={() => {
                 onOpenSettings();
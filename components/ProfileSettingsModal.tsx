@@ -1,37 +1,132 @@
 import React, { useState, useEffect } from 'react';
 import { UserProfile } from '../types';
-import { X, RefreshCcw, Save } from 'lucide-react';
+import { X, RefreshCcw, Save, BadgeCheck, MailWarning, KeyRound, AtSign, Trash2 } from 'lucide-react';
 import { Button } from './Button';
+import { PasswordRules } from './PasswordRules';
+import { PASSWORD_RULES } from '../services/passwordService';
 
 interface ProfileSettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   user: UserProfile;
   onUpdateUser: (user: UserProfile) => void;
+  onResendVerification?: () => Promise<void>;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  onChangeEmail: (password: string, newEmail: string) => Promise<void>;
+  onDeleteAccount: (password: string) => Promise<void>;
 }
 
+type AccountAction = 'password' | 'email' | 'delete';
+
+const DELETE_CONFIRMATION = 'DELETE';
+
+const inputClass = "w-full px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-sm font-semibold text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all";
+
 export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({
   isOpen,
   onClose,
   user,
-  onUpdateUser
+  onUpdateUser,
+  onResendVerification,
+  onChangePassword,
+  onChangeEmail,
+  onDeleteAccount
 }) => {
   const [name, setName] = useState(user.name);
   const [avatarSeed, setAvatarSeed] = useState(user.avatarSeed);
+  const [verificationState, setVerificationState] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+
+  // Account section: one action open at a time
+  const [accountAction, setAccountAction] = useState<AccountAction | null>(null);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [newEmail, setNewEmail] = useState('');
+  const [deleteConfirm, setDeleteConfirm] = useState('');
+  const [accountError, setAccountError] = useState<string | null>(null);
+  const [accountMessage, setAccountMessage] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
       setName(user.name);
       setAvatarSeed(user.avatarSeed);
+      setVerificationState('idle');
     }
   }, [isOpen, user]);
 
+  // Not tied to `user`: changing the email updates it, and the success message should stay
+  useEffect(() => {
+    if (isOpen) {
+      setAccountAction(null);
+      setAccountError(null);
+      setAccountMessage(null);
+    }
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
   const handleRandomizeAvatar = () => {
     setAvatarSeed(Math.random().toString(36).substring(7));
   };
 
+  const handleResend = async () => {
+    if (!onResendVerification) return;
+    setVerificationState('sending');
+    try {
+      await onResendVerification();
+      setVerificationState('sent');
+    } catch {
+      setVerificationState('failed');
+    }
+  };
+
+  const openAccountAction = (action: AccountAction | null) => {
+    setAccountAction(action);
+    setCurrentPassword('');
+    setNewPassword('');
+    setNewEmail('');
+    setDeleteConfirm('');
+    setAccountError(null);
+  };
+
+  const runAccountAction = async (action: () => Promise<void>, successMessage?: string) => {
+    setIsWorking(true);
+    setAccountError(null);
+    try {
+      await action();
+      openAccountAction(null);
+      if (successMessage) setAccountMessage(successMessage);
+    } catch (e: any) {
+      setAccountError(e.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAccountSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (accountAction === 'password') {
+      runAccountAction(() => onChangePassword(currentPassword, newPassword), 'Password changed. Other devices have been signed out.');
+    } else if (accountAction === 'email') {
+      const email = newEmail.trim();
+      runAccountAction(() => onChangeEmail(currentPassword, email), `Email changed. We sent a verification link to ${email}.`);
+    } else if (accountAction === 'delete') {
+      runAccountAction(() => onDeleteAccount(currentPassword));
+    }
+  };
+
+  const canSubmitAccount = !isWorking && currentPassword.length > 0 && (
+    accountAction === 'password' ? PASSWORD_RULES.every(rule => rule.test(newPassword))
+    : accountAction === 'email' ? newEmail.trim().length > 0 && newEmail.trim() !== user.email
+    : deleteConfirm === DELETE_CONFIRMATION
+  );
+
+  const accountActions: { id: AccountAction; label: string; icon: React.ReactNode }[] = [
+    { id: 'password', label: 'Change password', icon: <KeyRound size={14} /> },
+    { id: 'email', label: 'Change email', icon: <AtSign size={14} /> },
+    { id: 'delete', label: 'Delete account', icon: <Trash2 size={14} /> }
+  ];
+
   const handleSave = () => {
     onUpdateUser({ ...user, name, avatarSeed });
     onClose();
@@ -46,7 +141,7 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({
       ></div>
 
       {/* Modal Card */}
-      <div className="bg-white dark:bg-slate-800 rounded-[2rem] shadow-2xl w-full max-w-sm relative z-10 animate-in scale-in zoom-in-95 duration-200">
+      <div className="bg-white dark:bg-slate-800 rounded-[2rem] shadow-2xl w-full max-w-sm max-h-[90vh] overflow-y-auto custom-scrollbar relative z-10 animate-in scale-in zoom-in-95 duration-200">
         
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-slate-100 dark:border-slate-700">
@@ -90,11 +185,94 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({
                 />
             </div>
 
+            {/* Email */}
+            <div className="w-full flex items-center justify-between gap-2 mb-6 px-1 text-xs">
+                <span className="font-semibold text-slate-500 dark:text-slate-400 truncate">{user.email}</span>
+                {user.emailVerified ? (
+                    <span className="flex items-center gap-1 font-bold text-green-600 dark:text-green-400 shrink-0"><BadgeCheck size={14} /> Verified</span>
+                ) : (
+                    <button
+                        onClick={handleResend}
+                        disabled={verificationState === 'sending' || verificationState === 'sent'}
+                        className="flex items-center gap-1 font-bold text-amber-600 dark:text-amber-400 hover:underline disabled:no-underline disabled:opacity-70 shrink-0"
+                    >
+                        <MailWarning size={14} />
+                        {verificationState === 'sent' ? 'Link sent' : verificationState === 'failed' ? 'Try again' : 'Resend verification'}
+                    </button>
+                )}
+            </div>
+
             <Button fullWidth onClick={handleSave} icon={<Save size={18} />}>
                 Save Changes
             </Button>
         </div>
 
+        {/* Account */}
+        <div className="px-8 pb-8 pt-6 border-t border-slate-100 dark:border-slate-700">
+            <h3 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider ml-1 mb-3">Account</h3>
+
+            {accountMessage && (
+                <div className="mb-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 px-3 py-2 rounded-xl text-xs font-bold">
+                    {accountMessage}
+                </div>
+            )}
+
+            <div className="space-y-2">
+                {accountActions.map(action => (
+                    <div key={action.id} className="rounded-xl border border-slate-100 dark:border-slate-700 overflow-hidden">
+                        <button
+                            onClick={() => { setAccountMessage(null); openAccountAction(accountAction === action.id ? null : action.id); }}
+                            className={`w-full flex items-center gap-2 px-3 py-2.5 text-sm font-semibold transition-colors hover:bg-slate-50 dark:hover:bg-slate-700/50 ${action.id === 'delete' ? 'text-red-600 dark:text-red-400' : 'text-slate-700 dark:text-slate-200'}`}
+                        >
+                            {action.icon}
+                            {action.label}
+                        </button>
+
+                        {accountAction === action.id && (
+                            <form onSubmit={handleAccountSubmit} className="px-3 pb-3 space-y-2 animate-in fade-in">
+                                {action.id === 'password' && (
+                                    <>
+                                        <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} className={inputClass} placeholder="Current password" autoComplete="current-password" />
+                                        <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} className={inputClass} placeholder="New password" autoComplete="new-password" />
+                                        <PasswordRules password={newPassword} />
+                                    </>
+                                )}
+                                {action.id === 'email' && (
+                                    <>
+                                        <input type="email" value={newEmail} onChange={(e) => setNewEmail(e.target.value)} className={inputClass} placeholder="New email address" autoComplete="email" />
+                                        <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} className={inputClass} placeholder="Current password" autoComplete="current-password" />
+                                    </>
+                                )}
+                                {action.id === 'delete' && (
+                                    <>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400 leading-relaxed">
+                                            This removes your account, history, review cards and mistake notebook for good. Type <span className="font-black text-red-600 dark:text-red-400">{DELETE_CONFIRMATION}</span> to confirm.
+                                        </p>
+                                        <input type="text" value={deleteConfirm} onChange={(e) => setDeleteConfirm(e.target.value)} className={inputClass} placeholder={DELETE_CONFIRMATION} />
+                                        <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} className={inputClass} placeholder="Current password" autoComplete="current-password" />
+                                    </>
+                                )}
+
+                                {accountError && (
+                                    <p className="text-[10px] font-bold text-red-600 dark:text-red-400 ml-1">{accountError}</p>
+                                )}
+
+                                <Button
+                                    fullWidth
+                                    type="submit"
+                                    isLoading={isWorking}
+                                    disabled={!canSubmitAccount}
+                                    className={`rounded-xl py-2 text-sm ${action.id === 'delete' ? 'bg-[#EA4335] hover:bg-red-600 shadow-red-200 dark:shadow-red-900/20' : ''}`}
+                                >
+                                    {action.id === 'password' ? 'Update password' : action.id === 'email' ? 'Update email' : 'Delete my account'}
+                                </Button>
+                            </form>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+
       </div>
     </div>
   );
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Button } from './Button';
+import { X, Flag, CheckCircle2, SkipForward, Circle } from 'lucide-react';
+
+export type NavigatorStatus = 'answered' | 'skipped' | 'unanswered' | 'pending';
+
+interface QuestionNavigatorProps {
+  count: number; // Including questions still being generated
+  currentIndex: number;
+  getStatus: (index: number) => NavigatorStatus;
+  flagged: number[];
+  canJump: (index: number) => boolean;
+  onJump: (index: number) => void;
+  onClose: () => void;
+  onFinish: () => void;
+  finishLabel: string;
+}
+
+const STATUS_STYLES: Record<NavigatorStatus, string> = {
+  answered: 'bg-[#4285F4] border-[#4285F4] text-white',
+  skipped: 'bg-white dark:bg-slate-800 border-dashed border-slate-400 dark:border-slate-500 text-slate-500 dark:text-slate-400',
+  unanswered: 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200',
+  pending: 'bg-slate-50 dark:bg-slate-900 border-slate-100 dark:border-slate-800 text-slate-300 dark:text-slate-600 animate-pulse'
+};
+
+// Grid of every question in the session, for jumping around and seeing what's left
+export const QuestionNavigator: React.FC<QuestionNavigatorProps> = ({
+  count,
+  currentIndex,
+  getStatus,
+  flagged,
+  canJump,
+  onJump,
+  onClose,
+  onFinish,
+  finishLabel
+}) => {
+  const statuses = Array.from({ length: count }, (_, idx) => getStatus(idx));
+  const tally = (status: NavigatorStatus) => statuses.filter(s => s === status).length;
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-end md:items-center justify-center animate-in fade-in" onClick={onClose}>
+        <div
+            className="bg-white dark:bg-slate-800 rounded-t-2xl md:rounded-2xl p-5 w-full md:max-w-md shadow-2xl border border-slate-100 dark:border-slate-700 animate-in slide-up"
+            onClick={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-sm font-bold text-slate-800 dark:text-white">Questions</h2>
+                <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
+                    <X size={16} />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-6 gap-2 max-h-[45vh] overflow-y-auto custom-scrollbar p-1">
+                {statuses.map((status, idx) => (
+                    <button
+                        key={idx}
+                        onClick={() => onJump(idx)}
+                        disabled={!canJump(idx)}
+                        className={`relative aspect-square rounded-xl border-2 text-xs font-black transition-all disabled:cursor-default ${STATUS_STYLES[status]} ${idx === currentIndex ? 'ring-2 ring-offset-2 ring-[#4285F4] dark:ring-offset-slate-800' : ''} ${canJump(idx) ? 'hover:scale-105' : ''}`}
+                    >
+                        {idx + 1}
+                        {flagged.includes(idx) && (
+                            <Flag size={10} className="absolute -top-1.5 -right-1.5 text-[#FBBC05] fill-current" />
+                        )}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mt-4 text-[10px] font-bold uppercase tracking-wide text-slate-400 dark:text-slate-500">
+                <span className="flex items-center gap-1"><CheckCircle2 size={12} className="text-[#4285F4]" /> {tally('answered')} answered</span>
+                <span className="flex items-center gap-1"><SkipForward size={12} /> {tally('skipped')} skipped</span>
+                <span className="flex items-center gap-1"><Circle size={12} /> {tally('unanswered')} to go</span>
+                <span className="flex items-center gap-1"><Flag size={12} className="text-[#FBBC05]" /> {flagged.length} flagged</span>
+            </div>
+
+            <Button fullWidth variant="secondary" onClick={onFinish} className="mt-4 rounded-xl py-2.5 text-sm">
+                {finishLabel}
+            </Button>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { QuizQuestion, QuestionAttempt } from '../types';
+import { formatCorrectAnswer } from '../services/grading';
+import { CONFIDENCE_LEVELS, isConfidentlyWrong } from '../services/calibration';
+import { CheckCircle2, XCircle, CircleDot, MinusCircle, Clock, Lightbulb, BrainCircuit, Baby, Flag, Gauge, AlertTriangle } from 'lucide-react';
+
+interface QuestionReviewCardProps {
+  question: QuizQuestion;
+  attempt: QuestionAttempt | null;
+  index: number;
+  flagged?: boolean;
+}
+
+const attemptStatus = (attempt: QuestionAttempt | null) => {
+  if (!attempt) return { label: 'Not answered', color: 'text-slate-400', icon: <MinusCircle size={14} /> };
+  if (attempt.score >= 1) return { label: 'Correct', color: 'text-[#34A853]', icon: <CheckCircle2 size={14} /> };
+  if (attempt.score > 0) return { label: `Partial (${Math.round(attempt.score * 100)}%)`, color: 'text-[#f9ab00]', icon: <CircleDot size={14} /> };
+  return { label: attempt.timedOut ? 'Time up' : 'Incorrect', color: 'text-[#EA4335]', icon: <XCircle size={14} /> };
+};
+
+// One question of a finished session: what was asked, answered and expected
+export const QuestionReviewCard: React.FC<QuestionReviewCardProps> = ({ question, attempt, index, flagged }) => {
+  const status = attemptStatus(attempt);
+  const confidenceLabel = CONFIDENCE_LEVELS.find(level => level.id === attempt?.confidence)?.label;
+
+  return (
+    <div
+        className="bg-white dark:bg-slate-800 p-5 rounded-2xl border border-slate-100 dark:border-slate-700 shadow-sm animate-in slide-up"
+        style={{ animationDelay: `${index * 50}ms` }}
+    >
+        <div className="flex items-center justify-between mb-2">
+            <span className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-wide">
+                Q{index + 1} • {question.type.replace(/_/g, ' ')}
+                {flagged && <Flag size={10} className="text-[#FBBC05] fill-current" />}
+                {isConfidentlyWrong(attempt) && (
+                    <span className="flex items-center gap-0.5 text-[#EA4335] normal-case tracking-normal">
+                        <AlertTriangle size={10} /> Confidently wrong
+                    </span>
+                )}
+            </span>
+            <span className={`flex items-center gap-1 text-[10px] font-bold uppercase ${status.color}`}>
+                {status.icon}
+                {status.label}
+            </span>
+        </div>
+
+        <h3 className="font-bold text-slate-800 dark:text-slate-100 text-sm leading-snug mb-3">{question.question}</h3>
+
+        <div className="space-y-2 text-xs">
+            {attempt && !attempt.timedOut && (
+                <div>
+                    <span className="text-[9px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-wide block">Your answer</span>
+                    <p className={`font-semibold ${status.color}`}>{attempt.response || '—'}</p>
+                </div>
+            )}
+            {(!attempt || attempt.score < 1) && (
+                <div>
+                    <span className="text-[9px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-wide block">Answer</span>
+                    <p className="font-semibold text-slate-800 dark:text-slate-100">{formatCorrectAnswer(question)}</p>
+                </div>
+            )}
+            {question.explanation && (
+                <p className="text-slate-500 dark:text-slate-400 leading-relaxed">{question.explanation}</p>
+            )}
+            {question.simpleExplanation && (
+                <div className="flex items-start gap-2 bg-[#FBBC05]/10 text-[#b47a00] dark:text-[#f9ab00] p-2 rounded-lg">
+                    <Baby size={14} className="shrink-0 mt-0.5" />
+                    <span className="font-medium">{question.simpleExplanation}</span>
+                </div>
+            )}
+            {attempt?.explanationFeedback && (
+                <div className="flex items-start gap-2 bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300 p-2 rounded-lg">
+                    <BrainCircuit size={14} className="shrink-0 mt-0.5" />
+                    <span className="font-medium">{attempt.explanationFeedback.feedback}</span>
+                </div>
+            )}
+        </div>
+
+        {attempt && (
+            <div className="flex items-center gap-2 pt-3 mt-3 border-t border-slate-50 dark:border-slate-700/50">
+                {attempt.timeMs !== undefined && (
+                    <div className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 text-[10px] font-bold uppercase tracking-wide">
+                        <Clock size={12} />
+                        {Math.round(attempt.timeMs / 1000)}s
+                    </div>
+                )}
+                {confidenceLabel && (
+                    <div className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-300 text-[10px] font-bold uppercase tracking-wide">
+                        <Gauge size={12} />
+                        {confidenceLabel}
+                    </div>
+                )}
+                {!!attempt.hintsUsed && (
+                    <div className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-[#FBBC05]/10 text-[#b47a00] dark:text-[#f9ab00] text-[10px] font-bold uppercase tracking-wide">
+                        <Lightbulb size={12} />
+                        {attempt.hintsUsed} hint{attempt.hintsUsed === 1 ? '' : 's'}
+                    </div>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
@@ -1,71 +1,105 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { QuizQuestion, QuizResult, QuestionType, QuizMode, QuizSettings } from '../types';
+import { QuizQuestion, QuizResult, QuestionType, QuizMode, QuizSettings, ReviewGrade, QuestionAttempt, QuizProgress, QuestionDraft, Difficulty, Confidence } from '../types';
 import { Button } from './Button';
 import { validateExplanation } from '../services/geminiService';
-import { CheckCircle2, XCircle, ArrowRight, Lightbulb, BookOpen, Baby, CheckSquare, ListChecks, Type, X, Clock, AlertTriangle, ArrowUpDown, Split, Youtube, Link2, GripVertical, GalleryVerticalEnd, RotateCw, MinusSquare, Sword, Heart, Skull, Send, BrainCircuit } from 'lucide-react';
+import { isOptionMatch } from '../services/textMatching';
+import { getAIErrorMessage } from '../services/aiErrors';
+import { gradeAnswer, gradeOrdering, gradeMatching, AnswerGrade } from '../services/grading';
+import { gradeFromScore, gradeFromFlashcard } from '../services/srsService';
+import { QuestionNavigator, NavigatorStatus } from './QuestionNavigator';
+import { assessDifficulty, RecentAnswer } from '../services/adaptiveDifficulty';
+import { CONFIDENCE_LEVELS } from '../services/calibration';
+import { CheckCircle2, XCircle, ArrowRight, Lightbulb, BookOpen, Baby, CheckSquare, ListChecks, Type, X, Clock, AlertTriangle, ArrowUpDown, Split, Youtube, Link2, GripVertical, GalleryVerticalEnd, RotateCw, MinusSquare, Sword, Heart, Skull, Send, BrainCircuit, Quote, BadgeCheck, CircleDot, Flag, LogOut, Save, ArrowLeft, ClipboardCheck, LayoutGrid, SkipForward, TrendingUp, Repeat } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
 interface QuizViewProps {
   questions: QuizQuestion[];
+  pendingCount?: number; // Questions still being generated; they get appended to `questions`
   onFinish: (result: QuizResult) => void;
-  onExit: () => void;
+  onAnswerGraded?: (question: QuizQuestion, attempt: QuestionAttempt, grade: ReviewGrade) => void; // Feeds spaced repetition and the mistake notebook
+  onQuestionShown?: (question: QuizQuestion) => void; // Each time a question comes up, including on resume
+  onExplanationChecked?: (question: QuizQuestion, feedback: { isCorrect: boolean; feedback: string }) => void;
+  onExit: (saveForLater: boolean) => void;
+  initialProgress?: QuizProgress; // Checkpoint of an interrupted session to pick up from
+  onProgress?: (progress: QuizProgress) => void; // Called on each answer and move, for checkpointing
+  onTimerCheckpoint?: (timeLeft: number, elapsedMs: number) => void; // Every few seconds while the clock runs
+  onDifficultyChange?: (difficulty: Difficulty, sectionIndex?: number) => void; // Adaptive level moved; follow-ups on the current question's section are appended to `questions`
+  repeatStats?: { fresh: number; repeated: number } | null; // Against questions asked in earlier sessions on this material
   timeLimit?: number; 
   mode: QuizMode;
   settings?: QuizSettings;
 }
 
-// Helper: Normalize strings for robust comparison (MC/TF)
-const normalizeOptionText = (text: string | undefined): string => {
-  if (!text) return '';
-  let s = text.toLowerCase().trim();
-  s = s.replace(/[.,;!]+$/, ''); // Remove trailing punctuation
-  // Require space after separator (e.g. "A. ", "1. ") to protect decimals like "3.14" from being stripped
-  s = s.replace(/^[a-z0-9]+[.):-]\s+/, ''); 
-  return s.trim();
+// Exam clock when no length was picked
+export const EXAM_SECONDS_PER_QUESTION = 90;
+
+// How often a running clock is checkpointed
+const TIMER_CHECKPOINT_SECONDS = 5;
+
+// The answer as text, for history and the mistake notebook
+const describeDraft = (question: QuizQuestion, draft: QuestionDraft): string => {
+  switch (question.type) {
+    case QuestionType.FLASHCARD: return 'Marked for review';
+    case QuestionType.SHORT_ANSWER:
+    case QuestionType.FILL_IN_THE_BLANK: return draft.textAnswer.trim();
+    case QuestionType.ORDERING: return draft.orderingState.map(i => i.text).join(' → ');
+    case QuestionType.MATCHING: return Object.entries(draft.matchingState.matches).map(([left, right]) => `${left} → ${right}`).join('; ');
+    default: return draft.selectedOption || '';
+  }
 };
 
-const isOptionMatch = (opt1: string | undefined, opt2: string | undefined): boolean => {
-    const n1 = normalizeOptionText(opt1);
-    const n2 = normalizeOptionText(opt2);
-    if (n1 === n2) return true;
-    
-    // Fuzzy match for longer strings (e.g. "Paris" vs "City of Paris")
-    if (n1.length > 3 && n2.length > 3) {
-        if (n1.includes(n2) || n2.includes(n1)) return true;
-    }
-    return false;
+const isDraftAnswered = (question: QuizQuestion, draft?: QuestionDraft): boolean => {
+  if (!draft) return false;
+  switch (question.type) {
+    case QuestionType.FLASHCARD: return false;
+    case QuestionType.SHORT_ANSWER:
+    case QuestionType.FILL_IN_THE_BLANK: return !!draft.textAnswer.trim();
+    case QuestionType.ORDERING: return !!draft.orderingMoved && draft.orderingState.length > 0;
+    case QuestionType.MATCHING: return Object.keys(draft.matchingState.matches).length > 0;
+    default: return !!draft.selectedOption;
+  }
 };
 
-const checkTextAnswer = (userAnswer: string, correctAnswer: string | undefined): boolean => {
-  if (!correctAnswer) return false;
-  const normalize = (str: string | undefined) => {
-    if (!str) return '';
-    return str.toLowerCase().replace(/[^\w\s]/g, '').trim();
-  };
-  const u = normalize(userAnswer);
-  const c = normalize(correctAnswer);
-  if (!u || !c) return false;
-  if (u === c) return true;
-  if (c.length > 3 && u.includes(c)) return true;
-  if (u.length > 3 && c.includes(u)) return true;
-  return false;
+// Marks an answer the way handleCheckAnswer does, for exams graded on submission
+const gradeDraft = async (question: QuizQuestion, draft: QuestionDraft, useAI: boolean | undefined, signal: AbortSignal): Promise<number> => {
+  switch (question.type) {
+    case QuestionType.SHORT_ANSWER:
+    case QuestionType.FILL_IN_THE_BLANK: return (await gradeAnswer(question, draft.textAnswer, { useAI, signal })).score;
+    case QuestionType.ORDERING: return gradeOrdering(draft.orderingState.map(i => i.text), question.orderingItems || []).score;
+    case QuestionType.MATCHING: return gradeMatching(draft.matchingState.matches, question.matchingPairs || []).score;
+    default: return isOptionMatch(draft.selectedOption || '', question.correctAnswer) ? 1 : 0;
+  }
 };
 
-export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit, timeLimit = 0, mode, settings }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [selectedOption, setSelectedOption] = useState<string | null>(null);
-  const [isAnswerRevealed, setIsAnswerRevealed] = useState(false);
-  const [score, setScore] = useState(0);
-  const [startTime] = useState(Date.now());
-  const [textAnswer, setTextAnswer] = useState('');
-  const [showHint, setShowHint] = useState(false);
-  const [hintLevel, setHintLevel] = useState(0); // Progressive hints
+export const QuizView: React.FC<QuizViewProps> = ({ questions, pendingCount = 0, onFinish, onAnswerGraded, onQuestionShown, onExplanationChecked, onExit, initialProgress, onProgress, onTimerCheckpoint, onDifficultyChange, repeatStats, timeLimit = 0, mode, settings }) => {
+  const restored = initialProgress;
+  const isExamMode = mode === 'EXAM';
+  const [currentIndex, setCurrentIndex] = useState(restored?.currentIndex ?? 0);
+  const [selectedOption, setSelectedOption] = useState<string | null>(restored?.selectedOption ?? null);
+  const [isAnswerRevealed, setIsAnswerRevealed] = useState(restored?.isAnswerRevealed ?? false);
+  const [score, setScore] = useState(restored?.score ?? 0); // Fractional: typed answers can earn partial credit
+  const [correctCount, setCorrectCount] = useState(restored?.correctCount ?? 0);
+  const [startTime] = useState(Date.now() - (restored?.elapsedMs ?? 0));
+  const questionStartRef = useRef(Date.now());
+  const [attempts, setAttempts] = useState<(QuestionAttempt | null)[]>(restored?.attempts ?? []); // By question index, for history replay
+  const [flagged, setFlagged] = useState<number[]>(restored?.flagged ?? []); // Question indexes marked for a second look
+  const [textAnswer, setTextAnswer] = useState(restored?.textAnswer ?? '');
+  const [showHint, setShowHint] = useState(!!restored?.hintLevel);
+  const [hintLevel, setHintLevel] = useState(restored?.hintLevel ?? 0); // Progressive hints
   const [explanationMode, setExplanationMode] = useState<'standard' | 'simple'>('standard');
-  const [isCurrentCorrect, setIsCurrentCorrect] = useState(false);
+  const [isCurrentCorrect, setIsCurrentCorrect] = useState(restored?.isCurrentCorrect ?? false);
+  const [confidence, setConfidence] = useState<Confidence | null>(restored?.confidence ?? null); // Rated before checking
+  const [currentGrade, setCurrentGrade] = useState<AnswerGrade | null>(restored?.currentGrade as AnswerGrade | null ?? null); // Typed, ordering and matching answers
+  const [isGrading, setIsGrading] = useState(false);
+  const gradingAbortRef = useRef<AbortController | null>(null);
   const [isShaking, setIsShaking] = useState(false);
-  const [bossHealth, setBossHealth] = useState(100);
-  const [playerHealth, setPlayerHealth] = useState(3);
+  // Hits landed on the boss, partial credit included; its health is worked out from these
+  const [bossHits, setBossHits] = useState(restored?.bossHits ?? (restored?.bossHealth !== undefined ? (100 - restored.bossHealth) / 100 * questions.length : 0));
+  const [playerHealth, setPlayerHealth] = useState(restored?.playerHealth ?? 3);
+  const [showExitConfirm, setShowExitConfirm] = useState(false);
+  // The first per-question reset must keep the restored answer instead of reshuffling
+  const restoringRef = useRef(!!restored);
   const [bossAttackAnim, setBossAttackAnim] = useState(false);
   const [playerAttackAnim, setPlayerAttackAnim] = useState(false);
 
@@ -75,22 +109,56 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
   const [explanationFeedback, setExplanationFeedback] = useState<{isCorrect: boolean, feedback: string} | null>(null);
   const [isCheckingExplanation, setIsCheckingExplanation] = useState(false);
   
-  const [timeLeft, setTimeLeft] = useState(timeLimit);
+  // Per question normally; for the whole paper in an exam
+  const [timeLeft, setTimeLeft] = useState(restored?.timeLeft ?? (isExamMode
+    ? (settings?.examDuration ? settings.examDuration * 60 : (questions.length + pendingCount) * EXAM_SECONDS_PER_QUESTION)
+    : timeLimit));
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const [isTimeUp, setIsTimeUp] = useState(false);
 
-  const [orderingState, setOrderingState] = useState<{id: string, text: string}[]>([]);
+  const [orderingState, setOrderingState] = useState<{id: string, text: string}[]>(restored?.orderingState ?? []);
+  const [orderingMoved, setOrderingMoved] = useState(restored?.orderingMoved ?? false);
   const [draggedIdx, setDraggedIdx] = useState<number | null>(null);
   
   const [matchingState, setMatchingState] = useState<{
     matches: Record<string, string>;
     selectedLeft: string | null;
     shuffledRight: string[];
-  }>({ matches: {}, selectedLeft: null, shuffledRight: [] });
+  }>({ matches: restored?.matchingState.matches ?? {}, selectedLeft: null, shuffledRight: restored?.matchingState.shuffledRight ?? [] });
 
   const [isCardFlipped, setIsCardFlipped] = useState(false);
 
+  // Exam: answers are held as drafts and only marked on submission
+  const [drafts, setDrafts] = useState<Record<number, QuestionDraft>>(restored?.drafts ?? {});
+  const [showSubmitConfirm, setShowSubmitConfirm] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Adaptive level, judged on the answers since it last moved
+  const isAdaptive = !!settings?.adaptiveDifficulty && !isExamMode;
+  const [difficulty, setDifficulty] = useState<Difficulty>(restored?.difficulty ?? settings?.difficulty ?? 'MEDIUM');
+  const recentAnswersRef = useRef<RecentAnswer[]>([]);
+
+  // Order of play, so skipped questions come back round at the end
+  const [queue, setQueue] = useState<number[]>(restored?.queue ?? questions.map((_, i) => i));
+  const [skipped, setSkipped] = useState<number[]>(restored?.skipped ?? []);
+  const [showNavigator, setShowNavigator] = useState(false);
+
+  // The next unanswered question after the current one, wrapping round to skipped ones
+  const findNextUnanswered = (order: number[]): number | null => {
+    const pos = order.indexOf(currentIndex);
+    const rest = [...order.slice(pos + 1), ...order.slice(0, Math.max(pos, 0))];
+    return rest.find(i => !attempts[i] && i !== currentIndex) ?? null;
+  };
+
   const currentQuestion = questions[currentIndex];
+  const totalCount = questions.length + pendingCount;
+  // Every hit is worth the same share of the boss, however many questions the fight
+  // ends up with once a failed batch is taken out
+  const bossHealthLeft = 100 - (bossHits / Math.max(totalCount, 1)) * 100;
+  const bossHealth = bossHealthLeft < 1 ? 0 : bossHealthLeft; // Snap to 0 past floating point error
+  const nextIndex = findNextUnanswered(queue);
+  const isOnLastLoaded = nextIndex === null;
+  const isWaitingForMore = isOnLastLoaded && pendingCount > 0;
   
   const isShortAnswer = currentQuestion?.type === QuestionType.SHORT_ANSWER;
   const isFillInBlank = currentQuestion?.type === QuestionType.FILL_IN_THE_BLANK;
@@ -98,15 +166,23 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
   const isMatching = currentQuestion?.type === QuestionType.MATCHING;
   const isFlashcard = currentQuestion?.type === QuestionType.FLASHCARD;
   const isBossMode = mode === 'BOSS_BATTLE';
+  const isPartialCredit = !isCurrentCorrect && !!currentGrade && currentGrade.score > 0;
 
   useEffect(() => {
+    if (restoringRef.current) {
+        restoringRef.current = false;
+        return;
+    }
     setSelectedOption(null);
+    setConfidence(null);
     setIsAnswerRevealed(false);
     setTextAnswer('');
     setShowHint(false);
     setHintLevel(0);
     setExplanationMode('standard');
     setIsCurrentCorrect(false);
+    setCurrentGrade(null);
+    questionStartRef.current = Date.now();
     setIsShaking(false);
     setIsTimeUp(false);
     setDraggedIdx(null);
@@ -117,15 +193,28 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
     setBossAttackAnim(false);
     setPlayerAttackAnim(false);
     
-    if (timeLimit > 0) {
+    if (timeLimit > 0 && !isExamMode) {
         setTimeLeft(timeLimit);
     }
 
+    // Coming back to an exam question brings back what was entered before
+    const draft = isExamMode ? drafts[currentIndex] : undefined;
+    if (draft) {
+        setSelectedOption(draft.selectedOption);
+        setTextAnswer(draft.textAnswer);
+        setOrderingState(draft.orderingState);
+        setOrderingMoved(!!draft.orderingMoved);
+        setMatchingState({ ...draft.matchingState, selectedLeft: null });
+        setConfidence(draft.confidence ?? null);
+        return;
+    }
+
     if (currentQuestion?.type === QuestionType.ORDERING && currentQuestion.orderingItems) {
         const shuffled = [...currentQuestion.orderingItems]
             .sort(() => Math.random() - 0.5)
             .map((text, i) => ({ id: `item-${i}-${Math.random().toString(36).substr(2, 9)}`, text }));
         setOrderingState(shuffled);
+        setOrderingMoved(false);
     }
 
     if (currentQuestion?.type === QuestionType.MATCHING && currentQuestion.matchingPairs) {
@@ -140,11 +229,13 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
   }, [currentIndex, timeLimit, currentQuestion]);
 
   useEffect(() => {
-    if (timeLimit > 0 && !isAnswerRevealed && timeLeft > 0 && !isFlashcard) {
+    if (isExamMode) return;
+    // The clock stops while an answer is being graded or the exit prompt is open
+    if (timeLimit > 0 && !isAnswerRevealed && !isGrading && !showExitConfirm && timeLeft > 0 && !isFlashcard) {
         timerRef.current = setInterval(() => {
             setTimeLeft((prev) => prev - 1);
         }, 1000);
-    } else if (timeLeft === 0 && !isAnswerRevealed && timeLimit > 0 && !isFlashcard) {
+    } else if (timeLeft === 0 && !isAnswerRevealed && !isGrading && timeLimit > 0 && !isFlashcard) {
         setIsTimeUp(true);
         handleCheckAnswer(true);
     }
@@ -152,7 +243,74 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
     return () => {
         if (timerRef.current) clearInterval(timerRef.current);
     };
-  }, [timeLeft, isAnswerRevealed, timeLimit, isFlashcard]);
+  }, [timeLeft, isAnswerRevealed, isGrading, showExitConfirm, timeLimit, isFlashcard]);
+
+  // One clock for the whole exam; running out hands the paper in as it stands
+  useEffect(() => {
+    if (!isExamMode || isSubmitting) return;
+    if (timeLeft <= 0) {
+        handleSubmitExam();
+        return;
+    }
+    const tick = setTimeout(() => setTimeLeft(prev => prev - 1), 1000);
+    return () => clearTimeout(tick);
+  }, [isExamMode, timeLeft, isSubmitting]);
+
+  // Checkpoint when an answer is checked and on every move, not while one is being
+  // entered; the timer only goes into the small timer checkpoint below
+  useEffect(() => {
+    if (!onProgress || !currentQuestion) return;
+    onProgress({
+        currentIndex,
+        score,
+        correctCount,
+        attempts,
+        flagged,
+        bossHits,
+        playerHealth,
+        elapsedMs: Date.now() - startTime,
+        timeLeft,
+        isAnswerRevealed,
+        isCurrentCorrect,
+        currentGrade,
+        selectedOption,
+        textAnswer,
+        hintLevel,
+        orderingState,
+        orderingMoved,
+        matchingState: { matches: matchingState.matches, shuffledRight: matchingState.shuffledRight },
+        confidence,
+        drafts: isExamMode ? drafts : undefined,
+        difficulty: isAdaptive ? difficulty : undefined,
+        queue,
+        skipped
+    });
+  }, [currentIndex, attempts, isAnswerRevealed, currentGrade, flagged, drafts, queue, skipped]);
+
+  useEffect(() => {
+    if (currentQuestion) onQuestionShown?.(currentQuestion);
+  }, [currentQuestion]);
+
+  useEffect(() => {
+    if (!onTimerCheckpoint || timeLeft <= 0 || timeLeft % TIMER_CHECKPOINT_SECONDS !== 0) return;
+    onTimerCheckpoint(timeLeft, Date.now() - startTime);
+  }, [timeLeft]);
+
+  // Questions generated in the background join the end of the queue; follow-ups
+  // at a new level go straight after the current question
+  useEffect(() => {
+    setQueue(prev => {
+      if (prev.length >= questions.length) return prev;
+      const added = questions.slice(prev.length).map((_, i) => prev.length + i);
+      const followUps = added.filter(i => questions[i].followUp);
+      const rest = added.filter(i => !questions[i].followUp);
+      const pos = prev.indexOf(currentIndex) + 1;
+      return [...prev.slice(0, pos), ...followUps, ...prev.slice(pos), ...rest];
+    });
+  }, [questions.length]);
+
+  // Drop an AI grading call if the quiz is closed mid-check
+  useEffect(() => () => gradingAbortRef.current?.abort(), []);
 
   // Boss Death Check
   useEffect(() => {
@@ -165,46 +323,89 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
 
   if (!currentQuestion) return null;
 
-  const handleCheckAnswer = (forcedByTimeout: boolean = false, flashcardCorrect?: boolean) => {
+  const currentDraft = (): QuestionDraft => ({
+    selectedOption,
+    textAnswer,
+    orderingState,
+    orderingMoved,
+    matchingState: { matches: matchingState.matches, shuffledRight: matchingState.shuffledRight },
+    confidence
+  });
+
+  const describeResponse = (): string => describeDraft(currentQuestion, currentDraft());
+
+  const handleCheckAnswer = async (forcedByTimeout: boolean = false, flashcardCorrect?: boolean) => {
     let correct = false;
+    let credit = 0;
     
     if (isFlashcard) {
         correct = !!flashcardCorrect;
     } else if (forcedByTimeout) {
         correct = false;
     } else if (isShortAnswer || isFillInBlank) {
-      correct = checkTextAnswer(textAnswer, currentQuestion.correctAnswer);
-    } else if (isOrdering) {
-        const currentItems = orderingState.map(i => i.text);
-        const currentString = JSON.stringify(currentItems);
-        const correctString = JSON.stringify(currentQuestion.orderingItems);
-        correct = currentString === correctString;
-    } else if (isMatching) {
-        if (!currentQuestion.matchingPairs) {
-            correct = false;
-        } else {
-            const allMatched = currentQuestion.matchingPairs.every(pair => 
-                matchingState.matches[pair.left] === pair.right
-            );
-            const allAssigned = Object.keys(matchingState.matches).length === currentQuestion.matchingPairs.length;
-            correct = allMatched && allAssigned;
-        }
+      const controller = new AbortController();
+      gradingAbortRef.current = controller;
+      setIsGrading(true);
+      let grade: AnswerGrade;
+      try {
+        grade = await gradeAnswer(currentQuestion, textAnswer, { useAI: settings?.enableAIGrading, signal: controller.signal });
+      } catch {
+        return; // Only thrown when the quiz was left mid-check
+      } finally {
+        setIsGrading(false);
+      }
+      setCurrentGrade(grade);
+      credit = grade.score;
+      correct = credit >= 1;
+    } else if (isOrdering || isMatching) {
+        const grade = isOrdering
+            ? gradeOrdering(orderingState.map(i => i.text), currentQuestion.orderingItems || [])
+            : gradeMatching(matchingState.matches, currentQuestion.matchingPairs || []);
+        setCurrentGrade(grade);
+        credit = grade.score;
+        correct = credit >= 1;
     } else {
       correct = isOptionMatch(selectedOption || '', currentQuestion.correctAnswer);
     }
+    if (correct) credit = 1;
+
+    const ratedConfidence = forcedByTimeout || isFlashcard ? undefined : confidence ?? undefined;
+    let reviewGrade = isFlashcard ? gradeFromFlashcard(correct) : gradeFromScore(credit, forcedByTimeout, ratedConfidence);
+    if (hintLevel > 0 && reviewGrade > 3) reviewGrade = 3; // Needed a hint: recalled, but not easily
+    const attempt: QuestionAttempt = {
+        response: forcedByTimeout ? '' : describeResponse(),
+        score: credit,
+        timedOut: forcedByTimeout || undefined,
+        timeMs: Date.now() - questionStartRef.current,
+        hintsUsed: hintLevel,
+        confidence: ratedConfidence,
+        timestamp: Date.now()
+    };
+    setAttempts(prev => {
+        const next = [...prev];
+        next[currentIndex] = attempt;
+        return next;
+    });
+    onAnswerGraded?.(currentQuestion, attempt, reviewGrade);
+
+    if (isAdaptive && !isFlashcard) {
+        const recent = [...recentAnswersRef.current, { score: credit, timeMs: attempt.timeMs! }];
+        const nextLevel = assessDifficulty(difficulty, recent);
+        recentAnswersRef.current = nextLevel === difficulty ? recent : [];
+        if (nextLevel !== difficulty) {
+            setDifficulty(nextLevel);
+            onDifficultyChange?.(nextLevel, currentQuestion.section?.index);
+        }
+    }
     
     setIsCurrentCorrect(correct);
+    setScore(prev => prev + credit);
     if (correct) {
-      setScore(prev => prev + 1);
+      setCorrectCount(prev => prev + 1);
       
       if (isBossMode) {
           setPlayerAttackAnim(true);
-          const damagePerHit = 100 / questions.length;
-          setBossHealth(prev => {
-              const next = prev - damagePerHit;
-              // Snap to 0 if extremely close (floating point error fix)
-              return next < 1 ? 0 : next;
-          });
+          setBossHits(prev => prev + 1);
       } else {
           confetti({
             particleCount: 80,
@@ -214,6 +415,12 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
             zIndex: 50,
           });
       }
+    } else if (credit > 0) {
+        // Partial credit lands a partial hit, without the boss striking back
+        if (isBossMode) {
+            setPlayerAttackAnim(true);
+            setBossHits(prev => prev + credit);
+        }
     } else if (!forcedByTimeout && !isFlashcard) {
         if (isBossMode) {
             setBossAttackAnim(true);
@@ -235,44 +442,156 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
       try {
           const result = await validateExplanation(currentQuestion.question, currentQuestion.correctAnswer, userExplanation);
           setExplanationFeedback(result);
+          setAttempts(prev => {
+              const next = [...prev];
+              if (next[currentIndex]) next[currentIndex] = { ...next[currentIndex]!, explanationFeedback: result };
+              return next;
+          });
+          onExplanationChecked?.(currentQuestion, result);
       } catch (e) {
-          setExplanationFeedback({ isCorrect: false, feedback: "Could not verify." });
+          setExplanationFeedback({ isCorrect: false, feedback: getAIErrorMessage(e, "verify your explanation") });
       } finally {
           setIsCheckingExplanation(false);
       }
   };
 
+  // Partial credits add up to float noise (0.1 + 0.2...)
+  const finalScore = Math.round(score * 100) / 100;
+
+  // Unanswered questions go into the result as null attempts
+  const finishQuiz = () => {
+    const timeTaken = Math.floor((Date.now() - startTime) / 1000);
+    let xp = Math.round(finalScore * 10);
+    // Bonus only if boss actually died
+    if (isBossMode && bossHealth <= 0) xp += 100; 
+    else if (isBossMode && bossHealth > 0) xp = Math.floor(xp * 0.5); // Penalty if boss survived
+
+    onFinish({
+      score: finalScore,
+      totalQuestions: questions.length,
+      correctAnswers: correctCount,
+      timeTaken,
+      xpEarned: xp,
+      attempts: questions.map((_, i) => attempts[i] || null),
+      flagged,
+      finalDifficulty: isAdaptive ? difficulty : undefined
+    });
+  };
+
   const handleNext = () => {
+
     // Check for Game Over logic in boss mode
     if (isBossMode && playerHealth <= 0) {
         const timeTaken = Math.floor((Date.now() - startTime) / 1000);
         onFinish({
-            score: score,
+            score: finalScore,
             totalQuestions: questions.length,
-            correctAnswers: score,
+            correctAnswers: correctCount,
             timeTaken,
-            xpEarned: Math.floor(score * 5) // Reduced XP for failure
+            xpEarned: Math.floor(finalScore * 5), // Reduced XP for failure
+            attempts: questions.map((_, i) => attempts[i] || null),
+            flagged,
+            finalDifficulty: isAdaptive ? difficulty : undefined
         });
         return;
     }
 
-    if (currentIndex < questions.length - 1) {
-      setCurrentIndex(prev => prev + 1);
+    if (nextIndex !== null) {
+      setCurrentIndex(nextIndex);
+    } else if (pendingCount > 0) {
+      // The next question is still being generated
+      return;
     } else {
-      const timeTaken = Math.floor((Date.now() - startTime) / 1000);
-      let xp = score * 10;
-      // Bonus only if boss actually died
-      if (isBossMode && bossHealth <= 0) xp += 100; 
-      else if (isBossMode && bossHealth > 0) xp = Math.floor(xp * 0.5); // Penalty if boss survived
+      finishQuiz();
+    }
+  };
+
+  // Send the current question to the back of the queue
+  const handleSkip = () => {
+      const nextQueue = [...queue.filter(i => i !== currentIndex), currentIndex];
+      const next = findNextUnanswered(nextQueue);
+      if (next === null) return;
+      setQueue(nextQueue);
+      setSkipped(prev => prev.includes(currentIndex) ? prev : [...prev, currentIndex]);
+      setCurrentIndex(next);
+  };
+
+  const getNavigatorStatus = (index: number): NavigatorStatus => {
+      if (index >= questions.length) return 'pending';
+      if (isExamMode) {
+          const draft = index === currentIndex ? currentDraft() : drafts[index];
+          return isDraftAnswered(questions[index], draft) ? 'answered' : 'unanswered';
+      }
+      if (attempts[index]) return 'answered';
+      return skipped.includes(index) ? 'skipped' : 'unanswered';
+  };
+
+  // Exams can revisit anything; elsewhere only questions still waiting for an answer
+  const canJumpTo = (index: number) =>
+      index < questions.length && index !== currentIndex && (isExamMode || !attempts[index]);
+
+  const handleJump = (index: number) => {
+      setShowNavigator(false);
+      if (isExamMode) {
+          goToQuestion(index);
+          return;
+      }
+      // Walking away from an open question leaves it skipped
+      if (!isAnswerRevealed && !attempts[currentIndex]) {
+          setSkipped(prev => prev.includes(currentIndex) ? prev : [...prev, currentIndex]);
+      }
+      setCurrentIndex(index);
+  };
+
+  // Exam navigation: park the current answer as a draft and move freely
+  const goToQuestion = (index: number) => {
+      if (index < 0 || index >= questions.length || index === currentIndex) return;
+      setDrafts(prev => ({ ...prev, [currentIndex]: currentDraft() }));
+      setCurrentIndex(index);
+  };
+
+  const handleSubmitExam = async () => {
+      if (isSubmitting) return;
+      setShowSubmitConfirm(false);
+      setIsSubmitting(true);
+      const allDrafts = { ...drafts, [currentIndex]: currentDraft() };
+      const controller = new AbortController();
+      gradingAbortRef.current = controller;
+      const submittedAt = Date.now();
+
+      let graded: (QuestionAttempt | null)[];
+      try {
+          graded = await Promise.all(questions.map(async (question, i) => {
+              const draft = allDrafts[i];
+              if (!isDraftAnswered(question, draft)) return null;
+              const credit = await gradeDraft(question, draft, settings?.enableAIGrading, controller.signal);
+              const attempt: QuestionAttempt = { response: describeDraft(question, draft), score: credit, confidence: draft.confidence ?? undefined, timestamp: submittedAt };
+              return attempt;
+          }));
+      } catch {
+          return; // Only thrown when the exam was left mid-marking
+      }
+
+      // Skipped questions still count as misses for review and the notebook
+      questions.forEach((question, i) => {
+          const attempt = graded[i] || { response: '', score: 0, timestamp: submittedAt };
+          onAnswerGraded?.(question, attempt, gradeFromScore(attempt.score, false, attempt.confidence));
+      });
 
+      const finalScore = Math.round(graded.reduce((sum, a) => sum + (a?.score || 0), 0) * 100) / 100;
       onFinish({
-        score: score,
-        totalQuestions: questions.length,
-        correctAnswers: score,
-        timeTaken,
-        xpEarned: xp
+          score: finalScore,
+          totalQuestions: questions.length,
+          correctAnswers: graded.filter(a => a && a.score >= 1).length,
+          timeTaken: Math.floor((submittedAt - startTime) / 1000),
+          xpEarned: Math.round(finalScore * 10),
+          attempts: graded,
+          flagged
       });
-    }
+  };
+
+  const toggleFlag = () => {
+      setFlagged(prev => prev.includes(currentIndex) ? prev.filter(i => i !== currentIndex) : [...prev, currentIndex]);
   };
 
   const handleHint = () => {
@@ -300,6 +619,7 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
     newOrder.splice(draggedIdx, 1);
     newOrder.splice(index, 0, item);
     setOrderingState(newOrder);
+    setOrderingMoved(true);
     setDraggedIdx(index);
   };
   const handleDragEnd = () => setDraggedIdx(null);
@@ -358,24 +678,54 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
           )
       }
 
-      if (questions.length > 20) {
-        const progress = ((currentIndex + 1) / questions.length) * 100;
+      // Exams can be answered in any order: every question is a jump target
+      if (isExamMode) {
         return (
-            <div className="h-1 w-full bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden shadow-inner mt-2">
-                <div className="h-full bg-gradient-to-r from-[#4285F4] to-[#34A853] transition-all duration-500 ease-out" style={{ width: `${progress}%` }} />
+          <div className="flex gap-1 w-full mt-2">
+              {Array.from({ length: totalCount }).map((_, idx) => {
+                  const isPending = idx >= questions.length;
+                  const isActive = idx === currentIndex;
+                  const isAnswered = !isPending && (isActive
+                      ? isDraftAnswered(currentQuestion, currentDraft())
+                      : isDraftAnswered(questions[idx], drafts[idx]));
+                  const bgClass = flagged.includes(idx) ? 'bg-[#FBBC05]' : isAnswered ? 'bg-[#4285F4]' : 'bg-slate-200 dark:bg-slate-600';
+                  return (
+                      <button
+                          key={idx}
+                          onClick={() => goToQuestion(idx)}
+                          disabled={isPending || isSubmitting}
+                          title={`Question ${idx + 1}`}
+                          className={`h-1.5 flex-1 rounded-full transition-all ${bgClass} ${isActive ? 'ring-2 ring-offset-1 ring-[#4285F4]/50 dark:ring-offset-slate-800' : ''} ${isPending ? 'opacity-40 animate-pulse' : 'hover:opacity-80'}`}
+                      />
+                  );
+              })}
+          </div>
+        );
+      }
+
+      if (totalCount > 20) {
+        const progress = (attempts.filter(Boolean).length / totalCount) * 100;
+        const loaded = (questions.length / totalCount) * 100;
+        return (
+            <div className="h-1 w-full bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden shadow-inner mt-2 relative">
+                {pendingCount > 0 && (
+                    <div className="absolute inset-y-0 left-0 bg-slate-200 dark:bg-slate-600 transition-all duration-500" style={{ width: `${loaded}%` }} />
+                )}
+                <div className="h-full bg-gradient-to-r from-[#4285F4] to-[#34A853] transition-all duration-500 ease-out relative" style={{ width: `${progress}%` }} />
             </div>
         );
       }
       return (
         <div className="flex gap-1 w-full mt-2">
-            {questions.map((_, idx) => {
+            {Array.from({ length: totalCount }).map((_, idx) => {
                 const isActive = idx === currentIndex;
-                const isCompleted = idx < currentIndex;
+                const isCompleted = !!attempts[idx];
+                const isPending = idx >= questions.length;
                 let bgClass = "bg-slate-100 dark:bg-slate-700";
                 if (isCompleted) bgClass = "bg-[#34A853]";
                 if (isActive) bgClass = "bg-[#4285F4]";
                 return (
-                    <div key={idx} className="h-1 flex-1 rounded-full overflow-hidden bg-slate-100 dark:bg-slate-700 relative shadow-sm transition-colors">
+                    <div key={idx} className={`h-1 flex-1 rounded-full overflow-hidden bg-slate-100 dark:bg-slate-700 relative shadow-sm transition-colors ${isPending ? 'opacity-40 animate-pulse' : ''}`}>
                         <div className={`absolute inset-0 transition-all duration-300 ${bgClass} ${isActive ? 'animate-pulse' : ''}`} />
                     </div>
                 );
@@ -396,6 +746,19 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
       }
   };
 
+  // Exam being marked
+  if (isSubmitting) {
+      return (
+          <div className="absolute inset-0 z-50 bg-white dark:bg-slate-900 flex flex-col items-center justify-center p-6 animate-in fade-in">
+              <div className="w-12 h-12 bg-slate-100 dark:bg-slate-800 rounded-full flex items-center justify-center mb-3 text-slate-600 dark:text-slate-300 animate-pulse">
+                  <ClipboardCheck size={24} />
+              </div>
+              <h2 className="text-xl font-bold text-slate-800 dark:text-white">{timeLeft <= 0 ? "Time's up" : 'Exam submitted'}</h2>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Marking your answers...</p>
+          </div>
+      );
+  }
+
   // Explain It Back Modal
   if (showExplainModal) {
       return (
@@ -452,17 +815,87 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
   return (
     <div className={`flex flex-col h-full bg-slate-50 dark:bg-slate-900 relative transition-colors duration-300 ${isBossMode ? (bossAttackAnim ? 'bg-red-50 dark:bg-red-900/10' : '') : ''}`}>
       
+      {/* Exit Confirmation */}
+      {showExitConfirm && (
+          <div className="absolute inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in">
+              <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-sm w-full shadow-2xl border border-slate-100 dark:border-slate-700 space-y-3">
+                  <div className="text-center mb-2">
+                      <div className="w-12 h-12 bg-slate-100 dark:bg-slate-700 rounded-full flex items-center justify-center mx-auto mb-3 text-slate-600 dark:text-slate-300">
+                          <LogOut size={22} />
+                      </div>
+                      <h2 className="text-lg font-bold text-slate-800 dark:text-white">Leave this quiz?</h2>
+                      <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">You're on question {currentIndex + 1} of {totalCount}.</p>
+                  </div>
+                  <Button fullWidth onClick={() => setShowExitConfirm(false)}>
+                      Keep going
+                  </Button>
+                  <Button fullWidth variant="secondary" onClick={() => onExit(true)} icon={<Save size={16} />}>
+                      Save for later
+                  </Button>
+                  <button onClick={() => onExit(false)} className="w-full text-center text-xs text-slate-400 font-bold hover:text-red-500 pt-1">
+                      Discard quiz
+                  </button>
+              </div>
+          </div>
+      )}
+
+      {/* Question Navigator */}
+      {showNavigator && (
+          <QuestionNavigator
+              count={totalCount}
+              currentIndex={currentIndex}
+              getStatus={getNavigatorStatus}
+              flagged={flagged}
+              canJump={canJumpTo}
+              onJump={handleJump}
+              onClose={() => setShowNavigator(false)}
+              onFinish={() => {
+                  setShowNavigator(false);
+                  if (isExamMode) setShowSubmitConfirm(true);
+                  else finishQuiz();
+              }}
+              finishLabel={isExamMode ? 'Submit exam' : 'Finish now'}
+          />
+      )}
+
+      {/* Submit Confirmation */}
+      {showSubmitConfirm && (() => {
+          const answeredCount = questions.filter((q, i) => isDraftAnswered(q, i === currentIndex ? currentDraft() : drafts[i])).length;
+          return (
+          <div className="absolute inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in">
+              <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-sm w-full shadow-2xl border border-slate-100 dark:border-slate-700 space-y-3">
+                  <div className="text-center mb-2">
+                      <div className="w-12 h-12 bg-slate-100 dark:bg-slate-700 rounded-full flex items-center justify-center mx-auto mb-3 text-slate-600 dark:text-slate-300">
+                          <ClipboardCheck size={22} />
+                      </div>
+                      <h2 className="text-lg font-bold text-slate-800 dark:text-white">Submit your exam?</h2>
+                      <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                          {answeredCount} of {questions.length} answered{flagged.length > 0 ? `, ${flagged.length} flagged` : ''}. Answers can't be changed afterwards.
+                      </p>
+                  </div>
+                  <Button fullWidth onClick={handleSubmitExam} icon={<ClipboardCheck size={16} />}>
+                      Submit
+                  </Button>
+                  <Button fullWidth variant="secondary" onClick={() => setShowSubmitConfirm(false)}>
+                      Keep working
+                  </Button>
+              </div>
+          </div>
+          );
+      })()}
+
       {/* Compact Top Bar */}
       <div className="bg-white dark:bg-slate-800 px-4 py-2 shadow-sm z-20 border-b border-slate-100 dark:border-slate-700 transition-colors shrink-0">
         <div className="flex justify-between items-center">
-             <button onClick={onExit} className="p-1 -ml-2 text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-full transition-colors flex items-center gap-1 group">
+             <button onClick={() => setShowExitConfirm(true)} className="p-1 -ml-2 text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-full transition-colors flex items-center gap-1 group">
                 <X size={16} className="group-hover:scale-110 transition-transform"/>
                 <span className="text-[10px] font-bold uppercase tracking-wider">Exit</span>
              </button>
              
-             {timeLimit > 0 && !isFlashcard && !isBossMode ? (
+             <div className="flex items-center gap-2">
+             {isExamMode || (timeLimit > 0 && !isFlashcard && !isBossMode) ? (
                 <div className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full font-bold tabular-nums transition-colors text-[10px] ${
-                    timeLeft <= 10 
+                    timeLeft <= (isExamMode ? 60 : 10) 
                     ? 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 animate-pulse' 
                     : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'
                 }`}>
@@ -472,10 +905,59 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
              ) : (
                 !isBossMode && (
                     <div className="text-[10px] font-bold text-slate-900 dark:text-slate-100">
-                        Q <span className="text-[#4285F4] text-sm">{currentIndex + 1}</span> <span className="text-slate-300 dark:text-slate-600">/</span> {questions.length}
+                        Q <span className="text-[#4285F4] text-sm">{currentIndex + 1}</span> <span className="text-slate-300 dark:text-slate-600">/</span> {totalCount}
+                        {pendingCount > 0 && (
+                            <span className="ml-1.5 text-slate-400 dark:text-slate-500 animate-pulse">({pendingCount} loading)</span>
+                        )}
                     </div>
                 )
              )}
+                {isAdaptive && (
+                    <div
+                        title="Adaptive difficulty"
+                        className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wide transition-colors ${
+                            difficulty === 'EASY' ? 'bg-green-50 dark:bg-green-900/30 text-green-600 dark:text-green-400'
+                            : difficulty === 'MEDIUM' ? 'bg-yellow-50 dark:bg-yellow-900/30 text-yellow-600 dark:text-yellow-400'
+                            : 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400'
+                        }`}
+                    >
+                        <TrendingUp size={10} />
+                        {difficulty}
+                    </div>
+                )}
+                {repeatStats && repeatStats.repeated > 0 && (
+                    <div
+                        title="Compared with earlier sessions on this material"
+                        className="hidden sm:flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-300 text-[10px] font-bold"
+                    >
+                        <Repeat size={10} />
+                        {repeatStats.fresh} new · {repeatStats.repeated} repeated
+                    </div>
+                )}
+                <button
+                    onClick={toggleFlag}
+                    title={flagged.includes(currentIndex) ? 'Unflag question' : 'Flag question'}
+                    className={`p-1 rounded-full transition-colors ${flagged.includes(currentIndex) ? 'text-[#FBBC05]' : 'text-slate-300 dark:text-slate-600 hover:text-slate-500'}`}
+                >
+                    <Flag size={14} className={flagged.includes(currentIndex) ? 'fill-current' : ''} />
+                </button>
+                <button
+                    onClick={() => setShowNavigator(true)}
+                    title="All questions"
+                    className="p-1 rounded-full text-slate-300 dark:text-slate-600 hover:text-slate-500 transition-colors"
+                >
+                    <LayoutGrid size={14} />
+                </button>
+                {isExamMode && (
+                    <button
+                        onClick={() => setShowSubmitConfirm(true)}
+                        disabled={pendingCount > 0}
+                        className="px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider bg-slate-900 dark:bg-white text-white dark:text-slate-900 disabled:opacity-40 transition-opacity"
+                    >
+                        Submit
+                    </button>
+                )}
+             </div>
         </div>
         {renderProgressBar()}
       </div>
@@ -497,6 +979,11 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
                     {getQuestionTypeIcon()}
                     {currentQuestion.type.replace(/_/g, ' ')}
                 </span>
+                {currentQuestion.section && (
+                    <span className="text-[9px] font-semibold text-slate-400 dark:text-slate-500 truncate" title={currentQuestion.section.label}>
+                        {currentQuestion.section.label}
+                    </span>
+                )}
             </div>
             
             <div className="max-h-[35vh] overflow-y-auto custom-scrollbar pr-1">
@@ -550,12 +1037,13 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
             {isOrdering && (
                 <div className="space-y-2 mt-2">
                     <p className="text-[9px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest text-center mb-1">
-                        {isAnswerRevealed ? 'Correct Order' : 'Drag to reorder'}
+                        {isAnswerRevealed ? (isCurrentCorrect ? 'Correct Order' : 'Your Order') : 'Drag to reorder'}
                     </p>
                     <div className="space-y-2">
                     {orderingState.map((itemObj, idx) => {
                         const itemText = itemObj.text;
-                        const isCorrectPos = isAnswerRevealed && itemText === currentQuestion.orderingItems?.[idx];
+                        // Items outside the longest in-order run are the ones to move
+                        const isCorrectPos = isAnswerRevealed && !currentGrade?.misplaced?.includes(itemText);
                         const isDragging = draggedIdx === idx;
                         
                         let borderColor = "border-slate-200 dark:border-slate-700";
@@ -717,17 +1205,17 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
                     <textarea 
                         className={`w-full p-3 rounded-xl border-2 bg-white dark:bg-slate-800 outline-none h-24 resize-none text-sm transition-all duration-200
                             ${isAnswerRevealed 
-                                ? (isCurrentCorrect ? 'border-[#34A853] text-[#34A853] bg-[#34A853]/5' : 'border-[#EA4335] text-[#EA4335] bg-[#EA4335]/5') 
+                                ? (isCurrentCorrect ? 'border-[#34A853] text-[#34A853] bg-[#34A853]/5' : isPartialCredit ? 'border-[#FBBC05] text-[#b47a00] bg-[#FBBC05]/5' : 'border-[#EA4335] text-[#EA4335] bg-[#EA4335]/5') 
                                 : 'border-dashed border-slate-300 dark:border-slate-600 focus:border-[#4285F4] text-slate-700 dark:text-slate-200 focus:shadow-md focus:bg-slate-50'}
                         `}
                         placeholder={isFillInBlank ? "Type the missing word..." : "Type answer..."}
                         value={textAnswer}
                         onChange={(e) => setTextAnswer(e.target.value)}
-                        disabled={isAnswerRevealed}
+                        disabled={isAnswerRevealed || isGrading}
                     />
                     {isAnswerRevealed && (
                         <div className="absolute top-2 right-2 animate-in scale-in">
-                            {isCurrentCorrect ? <CheckCircle2 className="text-[#34A853]" size={16}/> : <XCircle className="text-[#EA4335]" size={16}/>}
+                            {isCurrentCorrect ? <CheckCircle2 className="text-[#34A853]" size={16}/> : isPartialCredit ? <CircleDot className="text-[#FBBC05]" size={16}/> : <XCircle className="text-[#EA4335]" size={16}/>}
                         </div>
                     )}
                 </div>
@@ -735,7 +1223,7 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
         </div>
 
         <div className="mt-3 space-y-2">
-            {!isAnswerRevealed && !showHint && !isTimeUp && !isFlashcard && (
+            {!isAnswerRevealed && !showHint && !isTimeUp && !isFlashcard && !isExamMode && (
                 <button 
                     onClick={handleHint}
                     className="flex items-center gap-1.5 text-xs font-bold text-[#FBBC05] bg-[#FBBC05]/10 px-3 py-1.5 rounded-lg hover:bg-[#FBBC05]/20 transition-all mx-auto hover:scale-105 active:scale-95"
@@ -745,6 +1233,24 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
                 </button>
             )}
 
+            {!isAnswerRevealed && !isTimeUp && !isFlashcard && (
+                <div className="flex items-center justify-center gap-2 pt-1">
+                    <span className="text-[9px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest">How sure?</span>
+                    {CONFIDENCE_LEVELS.map(level => (
+                        <button
+                            key={level.id}
+                            onClick={() => setConfidence(level.id)}
+                            disabled={isGrading}
+                            className={`px-2.5 py-1 rounded-lg text-[10px] font-bold transition-all border ${confidence === level.id
+                                ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900 border-transparent'
+                                : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-slate-300'}`}
+                        >
+                            {level.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
             {showHint && !isAnswerRevealed && (
                 <div className="bg-[#FBBC05]/10 border border-[#FBBC05]/20 p-2.5 rounded-xl animate-in fade-in slide-up">
                     <div className="flex items-start gap-2">
@@ -759,9 +1265,13 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
             {isAnswerRevealed && !isFlashcard && (
                 <div className="bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700 p-3 rounded-xl shadow-sm animate-in slide-up overflow-hidden relative">
                     <div className={`flex items-center gap-1.5 mb-2 text-xs font-bold uppercase tracking-wide
-                        ${isCurrentCorrect ? 'text-[#34A853]' : 'text-[#EA4335]'}`}>
-                        {isCurrentCorrect ? 'Correct!' : (isTimeUp ? 'Time Up!' : 'Incorrect')}
+                        ${isCurrentCorrect ? 'text-[#34A853]' : isPartialCredit ? 'text-[#f9ab00]' : 'text-[#EA4335]'}`}>
+                        {isCurrentCorrect ? 'Correct!' : isPartialCredit ? `Partially correct (${Math.round(currentGrade!.score * 100)}%)` : (isTimeUp ? 'Time Up!' : 'Incorrect')}
                     </div>
+
+                    {currentGrade?.rationale && (
+                        <p className="text-[10px] text-slate-500 dark:text-slate-400 font-medium mb-2 -mt-1">{currentGrade.rationale}</p>
+                    )}
                     
                     {isTimeUp && !isCurrentCorrect && (
                          <div className="flex items-center gap-2 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 p-2 rounded-lg mb-2 text-[10px] font-semibold">
@@ -776,6 +1286,11 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
                             <p className="text-slate-800 dark:text-slate-100 font-bold text-xs bg-slate-50 dark:bg-slate-900/50 p-1.5 rounded-lg border border-slate-100 dark:border-slate-700">
                                 {currentQuestion.correctAnswer}
                             </p>
+                            {currentQuestion.acceptedAnswers && currentQuestion.acceptedAnswers.length > 0 && (
+                                <p className="text-[9px] text-slate-400 dark:text-slate-500 font-medium mt-1">
+                                    Also accepted: {currentQuestion.acceptedAnswers.join(', ')}
+                                </p>
+                            )}
                          </div>
                     )}
                     
@@ -823,6 +1338,26 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
                         {explanationMode === 'standard' ? currentQuestion.explanation : currentQuestion.simpleExplanation}
                     </p>
 
+                    {currentQuestion.source && (
+                        <div className="mb-2 p-2 rounded-lg bg-indigo-50/60 dark:bg-indigo-900/20 border-l-2 border-indigo-400">
+                            <div className="flex items-center gap-1 mb-0.5 text-[9px] font-bold uppercase tracking-wide text-indigo-500 dark:text-indigo-300">
+                                <Quote size={10} />
+                                <span className="truncate">
+                                    {currentQuestion.source.fileName || 'Your notes'}
+                                    {currentQuestion.source.page ? ` • p.${currentQuestion.source.page}` : ''}
+                                </span>
+                                {currentQuestion.source.verified && (
+                                    <span className="ml-auto flex items-center gap-0.5 text-[#34A853] normal-case tracking-normal" title="This quote was found in your notes">
+                                        <BadgeCheck size={10} /> Found in notes
+                                    </span>
+                                )}
+                            </div>
+                            <p className="text-[10px] italic text-slate-600 dark:text-slate-300 leading-relaxed">
+                                "{currentQuestion.source.excerpt}"
+                            </p>
+                        </div>
+                    )}
+
                     {currentQuestion.searchQuery && (
                          <a 
                             href={`https://www.youtube.com/results?search_query=${encodeURIComponent(currentQuestion.searchQuery)}`}
@@ -839,7 +1374,42 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
         </div>
 
         <div className="absolute bottom-0 left-0 right-0 p-4 bg-white dark:bg-slate-800 border-t border-slate-100 dark:border-slate-700 z-30 transition-colors">
-            {!isAnswerRevealed ? (
+            {isExamMode ? (
+                <div className="flex gap-3">
+                    <Button
+                        size="md"
+                        variant="secondary"
+                        onClick={() => goToQuestion(currentIndex - 1)}
+                        disabled={currentIndex === 0}
+                        icon={<ArrowLeft size={16} />}
+                        className="rounded-xl py-2.5 text-sm"
+                    >
+                        Back
+                    </Button>
+                    {currentIndex < questions.length - 1 ? (
+                        <Button
+                            fullWidth
+                            size="md"
+                            onClick={() => goToQuestion(currentIndex + 1)}
+                            icon={<ArrowRight size={16} />}
+                            className="bg-slate-900 dark:bg-white text-white dark:text-slate-900 hover:bg-black dark:hover:bg-slate-100 rounded-xl py-2.5 shadow-md shadow-slate-200 dark:shadow-none transform active:scale-[0.98] transition-all text-sm"
+                        >
+                            Next
+                        </Button>
+                    ) : (
+                        <Button
+                            fullWidth
+                            size="md"
+                            onClick={() => setShowSubmitConfirm(true)}
+                            disabled={pendingCount > 0}
+                            icon={pendingCount > 0 ? undefined : <ClipboardCheck size={16} />}
+                            className="bg-[#4285F4] text-white hover:bg-[#3367d6] rounded-xl py-2.5 shadow-md shadow-blue-200 dark:shadow-blue-900/50 transform active:scale-[0.98] transition-all text-sm"
+                        >
+                            {pendingCount > 0 ? 'Loading next question...' : 'Submit Exam'}
+                        </Button>
+                    )}
+                </div>
+            ) : !isAnswerRevealed ? (
                 <>
                 {isFlashcard ? (
                     <div className={`flex gap-3 transition-opacity duration-300 ${isCardFlipped ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}>
@@ -847,19 +1417,35 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
                         <Button fullWidth size="md" onClick={() => handleCheckAnswer(false, true)} className="bg-green-500 hover:bg-green-600 text-white rounded-xl py-2.5 shadow-md shadow-green-200 dark:shadow-green-900/20 text-sm">Got it</Button>
                     </div>
                 ) : (
-                    <Button 
-                        fullWidth 
-                        size="md" 
-                        onClick={() => handleCheckAnswer(false)}
-                        disabled={
-                            (!isShortAnswer && !isFillInBlank && !isMatching && !isOrdering && !selectedOption) || 
-                            ((isShortAnswer || isFillInBlank) && !textAnswer.trim()) || 
-                            (isMatching && Object.keys(matchingState.matches).length === 0)
-                        }
-                        className="bg-slate-900 dark:bg-white text-white dark:text-slate-900 hover:bg-black dark:hover:bg-slate-100 rounded-xl py-2.5 shadow-md shadow-slate-200 dark:shadow-none transform active:scale-[0.98] transition-all text-sm"
-                    >
-                        {isBossMode ? 'Attack Boss' : 'Check Answer'}
-                    </Button>
+                    <div className="flex gap-3">
+                        {nextIndex !== null && (
+                            <Button
+                                size="md"
+                                variant="secondary"
+                                onClick={handleSkip}
+                                disabled={isGrading}
+                                icon={<SkipForward size={16} />}
+                                className="rounded-xl py-2.5 text-sm"
+                            >
+                                Skip
+                            </Button>
+                        )}
+                        <Button 
+                            fullWidth 
+                            size="md" 
+                            onClick={() => handleCheckAnswer(false)}
+                            isLoading={isGrading}
+                            disabled={
+                                (!isShortAnswer && !isFillInBlank && !isMatching && !isOrdering && !selectedOption) || 
+                                ((isShortAnswer || isFillInBlank) && !textAnswer.trim()) || 
+                                (isMatching && Object.keys(matchingState.matches).length === 0) ||
+                                !confidence
+                            }
+                            className="bg-slate-900 dark:bg-white text-white dark:text-slate-900 hover:bg-black dark:hover:bg-slate-100 rounded-xl py-2.5 shadow-md shadow-slate-200 dark:shadow-none transform active:scale-[0.98] transition-all text-sm"
+                        >
+                            {isBossMode ? 'Attack Boss' : 'Check Answer'}
+                        </Button>
+                    </div>
                 )}
                 </>
             ) : (
@@ -867,10 +1453,11 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onExit,
                     fullWidth 
                     size="md" 
                     onClick={handleNext}
+                    disabled={isWaitingForMore && !(isBossMode && playerHealth <= 0)}
                     className="bg-[#4285F4] text-white hover:bg-[#3367d6] rounded-xl py-2.5 shadow-md shadow-blue-200 dark:shadow-blue-900/50 transform active:scale-[0.98] transition-all text-sm"
-                    icon={currentIndex === questions.length - 1 ? (isBossMode && playerHealth <= 0 ? <Skull size={16}/> : undefined) : <ArrowRight size={16} />}
+                    icon={isOnLastLoaded && !isWaitingForMore ? (isBossMode && playerHealth <= 0 ? <Skull size={16}/> : undefined) : <ArrowRight size={16} />}
                 >
-                    {currentIndex === questions.length - 1 ? 'Finish Quiz' : 'Next'}
+                    {isWaitingForMore ? 'Loading next question...' : (isOnLastLoaded ? 'Finish Quiz' : 'Next')}
                 </Button>
             )}
         </div>
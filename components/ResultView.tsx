@@ -1,19 +1,38 @@
 
 import React, { useState, useEffect } from 'react';
-import { QuizResult } from '../types';
+import { QuizResult, QuizQuestion } from '../types';
 import { Button } from './Button';
-import { RotateCcw, Plus, Trophy, Clock, CheckCircle2, Target, Flame, Star, Award, TrendingUp } from 'lucide-react';
+import { QuestionReviewCard } from './QuestionReviewCard';
+import { CalibrationChart } from './CalibrationChart';
+import { buildCalibration, isConfidentlyWrong } from '../services/calibration';
+import { RotateCcw, Plus, Trophy, Clock, CheckCircle2, Target, Flame, Star, Award, TrendingUp, Dumbbell, Gauge } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
 interface ResultViewProps {
   result: QuizResult;
+  questions: QuizQuestion[];
   onRetry: () => void;
   onNew: () => void;
+  onPracticeWrong: (questions: QuizQuestion[]) => void;
 }
 
-export const ResultView: React.FC<ResultViewProps> = ({ result, onRetry, onNew }) => {
-  const percentage = Math.round((result.correctAnswers / result.totalQuestions) * 100);
+type ReviewFilter = 'ALL' | 'WRONG' | 'FLAGGED';
+
+export const ResultView: React.FC<ResultViewProps> = ({ result, questions, onRetry, onNew, onPracticeWrong }) => {
+  const percentage = Math.round((result.score / result.totalQuestions) * 100);
   const [displayXp, setDisplayXp] = useState(0);
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('ALL');
+
+  // Anything short of full credit counts as wrong, including unanswered questions
+  const isWrong = (idx: number) => (result.attempts?.[idx]?.score ?? 0) < 1;
+  const wrongIndexes = questions.map((_, idx) => idx).filter(isWrong);
+  const flagged = result.flagged || [];
+  const visibleIndexes = questions.map((_, idx) => idx).filter(idx =>
+    reviewFilter === 'ALL' || (reviewFilter === 'WRONG' ? isWrong(idx) : flagged.includes(idx))
+  );
+  const calibration = buildCalibration(result.attempts || []);
+  const hasRatings = calibration.some(p => p.count > 0);
+  const confidentMissCount = (result.attempts || []).filter(isConfidentlyWrong).length;
   
   // Calculate Grade
   let grade = 'F';
@@ -112,7 +131,7 @@ export const ResultView: React.FC<ResultViewProps> = ({ result, onRetry, onNew }
       </div>
 
       {/* Stats Grid - Compacted */}
-      <div className="flex-1 overflow-y-auto p-4 animate-in slide-up delay-100 flex flex-col justify-center">
+      <div className="flex-1 overflow-y-auto p-4 animate-in slide-up delay-100 flex flex-col">
           <div className="grid grid-cols-2 gap-3 max-w-sm mx-auto w-full">
               
               <div className="bg-white dark:bg-slate-800 p-3 rounded-xl border border-slate-100 dark:border-slate-700 shadow-sm flex flex-col gap-1 hover:shadow-md transition-shadow">
@@ -150,6 +169,74 @@ export const ResultView: React.FC<ResultViewProps> = ({ result, onRetry, onNew }
               </div>
 
           </div>
+
+          {/* Calibration */}
+          {hasRatings && (
+              <div className="max-w-sm mx-auto w-full mt-3 bg-white dark:bg-slate-800 p-3 rounded-xl border border-slate-100 dark:border-slate-700 shadow-sm">
+                  <div className="flex items-center justify-between mb-1">
+                      <div className="flex items-center gap-1.5 text-indigo-500">
+                          <Gauge size={14} />
+                          <span className="text-[10px] font-bold uppercase tracking-wide opacity-70">Confidence vs Accuracy</span>
+                      </div>
+                      {confidentMissCount > 0 && (
+                          <span className="text-[10px] font-bold text-[#EA4335]">{confidentMissCount} confidently wrong</span>
+                      )}
+                  </div>
+                  <CalibrationChart points={calibration} />
+              </div>
+          )}
+
+          {/* Question Breakdown */}
+          {questions.length > 0 && (
+              <div className="max-w-sm mx-auto w-full mt-6">
+                  <div className="flex items-center justify-between mb-3">
+                      <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest">Review</span>
+                      <div className="flex p-0.5 bg-slate-100 dark:bg-slate-800 rounded-lg">
+                          {([
+                              { id: 'ALL', label: `All ${questions.length}` },
+                              { id: 'WRONG', label: `Wrong ${wrongIndexes.length}` },
+                              { id: 'FLAGGED', label: `Flagged ${flagged.length}` }
+                          ] as { id: ReviewFilter; label: string }[]).map(f => (
+                              <button
+                                  key={f.id}
+                                  onClick={() => setReviewFilter(f.id)}
+                                  className={`px-2 py-1 text-[10px] font-bold rounded-md transition-all ${reviewFilter === f.id ? 'bg-white dark:bg-slate-700 text-slate-800 dark:text-white shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                              >
+                                  {f.label}
+                              </button>
+                          ))}
+                      </div>
+                  </div>
+
+                  <div className="space-y-3">
+                      {visibleIndexes.length === 0 ? (
+                          <p className="text-center text-xs font-semibold text-slate-400 dark:text-slate-500 py-6">
+                              {reviewFilter === 'WRONG' ? 'Nothing wrong. Nice!' : 'No flagged questions.'}
+                          </p>
+                      ) : visibleIndexes.map(idx => (
+                          <QuestionReviewCard
+                              key={idx}
+                              question={questions[idx]}
+                              attempt={result.attempts?.[idx] || null}
+                              index={idx}
+                              flagged={flagged.includes(idx)}
+                          />
+                      ))}
+                  </div>
+
+                  {wrongIndexes.length > 0 && (
+                      <Button
+                          fullWidth
+                          variant="ghost"
+                          onClick={() => onPracticeWrong(wrongIndexes.map(idx => questions[idx]))}
+                          className="mt-3 text-[#EA4335] bg-[#EA4335]/10 hover:bg-[#EA4335]/15 rounded-xl py-2.5 text-xs font-bold"
+                          icon={<Dumbbell size={16} />}
+                      >
+                          Quiz me on the {wrongIndexes.length} I missed
+                      </Button>
+                  )}
+              </div>
+          )}
       </div>
 
       {/* Action Footer - Compact */}
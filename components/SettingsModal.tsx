@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { X, Clock, BarChart2, CheckSquare, Zap, Layers, Split, ArrowUpDown, GalleryVerticalEnd, MinusSquare, BrainCircuit, Mic, Lock } from 'lucide-react';
+import { X, Clock, BarChart2, CheckSquare, Zap, Layers, Split, ArrowUpDown, GalleryVerticalEnd, MinusSquare, BrainCircuit, Mic, Lock, SpellCheck, TrendingUp } from 'lucide-react';
 import { Button } from './Button';
 import { Difficulty, QuizSettings, QuestionType, QuizMode, AIPersonality, UserProfile } from '../types';
 
@@ -37,6 +37,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   ];
 
   const timeOptions = [0, 30, 60, 120];
+  const examOptions = [0, 10, 20, 30, 60]; // Minutes; 0 scales with the question count
+  const isExam = quizMode === 'EXAM';
 
   const toggleType = (type: QuestionType) => {
     const current = settings.allowedTypes;
@@ -130,6 +132,25 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               </div>
           </section>
 
+          {/* AI Grading Toggle */}
+          <section>
+              <div className="flex items-center justify-between bg-slate-50 dark:bg-slate-900/40 p-3 rounded-xl border border-slate-100 dark:border-slate-700">
+                  <div className="flex items-center gap-2">
+                      <SpellCheck className="text-slate-600 dark:text-slate-300" size={18} />
+                      <div>
+                          <h3 className="font-bold text-sm text-slate-800 dark:text-white">AI Grading</h3>
+                          <p className="text-[10px] text-slate-500 dark:text-slate-400">Let the AI judge typed answers worded differently</p>
+                      </div>
+                  </div>
+                  <button 
+                    onClick={() => onUpdateSettings({...settings, enableAIGrading: !settings.enableAIGrading})}
+                    className={`w-10 h-6 rounded-full p-1 transition-colors ${settings.enableAIGrading ? 'bg-indigo-600' : 'bg-slate-300 dark:bg-slate-600'}`}
+                  >
+                      <div className={`w-4 h-4 bg-white rounded-full transition-transform ${settings.enableAIGrading ? 'translate-x-4' : ''}`}></div>
+                  </button>
+              </div>
+          </section>
+
           {/* Difficulty Section */}
           <section>
             <div className="flex items-center gap-2 mb-4">
@@ -157,9 +178,58 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               {settings.difficulty === 'MEDIUM' && "Standard complexity requiring good understanding."}
               {settings.difficulty === 'HARD' && "Complex scenarios requiring analysis, synthesis, and deep drilling."}
             </p>
+            {!isExam && (
+              <div className="flex items-center justify-between bg-slate-50 dark:bg-slate-900/40 p-3 rounded-xl border border-slate-100 dark:border-slate-700 mt-3">
+                  <div className="flex items-center gap-2">
+                      <TrendingUp className="text-indigo-500 dark:text-indigo-400" size={18} />
+                      <div>
+                          <h3 className="font-bold text-sm text-slate-800 dark:text-white">Adaptive</h3>
+                          <p className="text-[10px] text-slate-500 dark:text-slate-400">Adjust the level as you go, and pick up where you left off on a topic</p>
+                      </div>
+                  </div>
+                  <button 
+                    onClick={() => onUpdateSettings({...settings, adaptiveDifficulty: !settings.adaptiveDifficulty})}
+                    className={`w-10 h-6 rounded-full p-1 transition-colors ${settings.adaptiveDifficulty ? 'bg-indigo-600' : 'bg-slate-300 dark:bg-slate-600'}`}
+                  >
+                      <div className={`w-4 h-4 bg-white rounded-full transition-transform ${settings.adaptiveDifficulty ? 'translate-x-4' : ''}`}></div>
+                  </button>
+              </div>
+            )}
           </section>
 
           {/* Time Limit Section */}
+          {isExam ? (
+          <section>
+            <div className="flex items-center gap-2 mb-4">
+              <Clock className="text-teal-500 dark:text-teal-400" size={20} />
+              <h3 className="font-bold text-slate-800 dark:text-slate-100">Exam Length</h3>
+            </div>
+            <div className="space-y-4">
+                <input 
+                    type="range" 
+                    min="0" 
+                    max={examOptions.length - 1} 
+                    step="1"
+                    value={Math.max(0, examOptions.indexOf(settings.examDuration || 0))}
+                    onChange={(e) => {
+                        const idx = parseInt(e.target.value);
+                        onUpdateSettings({ ...settings, examDuration: examOptions[idx] });
+                    }}
+                    className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-teal-500"
+                />
+                <div className="flex justify-between text-xs font-bold text-slate-400 dark:text-slate-500 uppercase">
+                    {examOptions.map(minutes => (
+                        <span key={minutes} className={(settings.examDuration || 0) === minutes ? "text-teal-600 dark:text-teal-400" : ""}>
+                            {minutes === 0 ? 'Auto' : `${minutes}m`}
+                        </span>
+                    ))}
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 bg-slate-50 dark:bg-slate-800 p-3 rounded-lg border border-slate-100 dark:border-slate-700">
+                  One clock for the whole paper. Answers are only marked once you submit, or when time runs out.
+                </p>
+            </div>
+          </section>
+          ) : (
           <section>
             <div className="flex items-center gap-2 mb-4">
               <Clock className="text-teal-500 dark:text-teal-400" size={20} />
@@ -186,6 +256,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                 </div>
             </div>
           </section>
+          )}
 
           {/* Question Types (Conditional) */}
           <section className={`transition-opacity duration-300 ${quizMode !== 'MIXED' ? 'opacity-40 pointer-events-none grayscale' : ''}`}>
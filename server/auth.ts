@@ -0,0 +1,213 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { Account, AuthSession } from '../types';
+import { AuthError } from '../services/authErrors';
+import { PBKDF2_ITERATIONS, PasswordHash, hashPassword, verifyPassword, getPasswordProblems } from '../services/passwordService';
+import { AuthStore, UserRow, toAccount, toPasswordHash } from './authStore';
+
+// Accounts and sessions: short-lived signed access tokens, and long-lived refresh
+// tokens that are swapped for a new one every time they're used.
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+interface AuthServiceOptions {
+  secret: string; // Signs access tokens; a new secret just makes every client refresh
+  onVerificationToken: (email: string, token: string) => void; // Where a mailer would plug in
+}
+
+export interface RegisterRequest {
+  name: string;
+  email: string;
+  password: string;
+  avatarSeed?: string; // Kept when an account made on this device before the server existed moves over
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+const newToken = () => randomBytes(32).toString('base64url');
+
+export type AuthService = ReturnType<typeof createAuthService>;
+
+export const createAuthService = (store: AuthStore, { secret, onVerificationToken }: AuthServiceOptions) => {
+  // Checked against when no account matches, so an unknown email takes as long as a wrong password
+  const dummyHash: Promise<PasswordHash> = hashPassword(newToken());
+
+  const sign = (payload: string) => createHmac('sha256', secret).update(payload).digest();
+
+  const issueSession = (user: UserRow): AuthSession => {
+    const expiresAt = Date.now() + ACCESS_TOKEN_TTL_MS;
+    const payload = Buffer.from(JSON.stringify({ sub: user.id, exp: expiresAt })).toString('base64url');
+    const refreshToken = newToken();
+    store.saveRefreshToken(hashToken(refreshToken), user.id, Date.now() + REFRESH_TOKEN_TTL_MS);
+    return {
+      account: toAccount(user),
+      accessToken: `${payload}.${sign(payload).toString('base64url')}`,
+      refreshToken,
+      expiresAt
+    };
+  };
+
+  // The user id the token was issued to, or null if it's forged or expired
+  const verifyAccessToken = (token: string): string | null => {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+    const expected = sign(payload);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+    try {
+      const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      return typeof sub === 'string' && typeof exp === 'number' && exp > Date.now() ? sub : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const requireUser = (accessToken: string | undefined): UserRow => {
+    const userId = accessToken ? verifyAccessToken(accessToken) : null;
+    const user = userId ? store.findUserById(userId) : null;
+    if (!user) throw new AuthError('UNAUTHORIZED', 'Your session has expired. Please sign in again.');
+    return user;
+  };
+
+  // Checks the password, counting failures towards a lockout like sign-in does
+  const checkPassword = async (user: UserRow, password: string) => {
+    if (user.locked_until && user.locked_until > Date.now()) {
+      const minutes = Math.ceil((user.locked_until - Date.now()) / 60000);
+      throw new AuthError('ACCOUNT_LOCKED', `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+    }
+
+    if (!(await verifyPassword(password, toPasswordHash(user)))) {
+      const failedLogins = user.failed_logins + 1;
+      if (failedLogins >= MAX_FAILED_LOGINS) {
+        store.setLoginState(user.id, 0, Date.now() + LOCKOUT_MS);
+        throw new AuthError('ACCOUNT_LOCKED', `Too many failed attempts. Try again in ${LOCKOUT_MS / 60000} minutes.`);
+      }
+      store.setLoginState(user.id, failedLogins, null);
+      throw new AuthError('INVALID_CREDENTIALS', 'Invalid credentials');
+    }
+    store.setLoginState(user.id, 0, null);
+  };
+
+  const requireStrongPassword = (password: string) => {
+    const problems = getPasswordProblems(password);
+    if (problems.length > 0) {
+      throw new AuthError('WEAK_PASSWORD', `Password needs: ${problems.join(', ').toLowerCase()}.`);
+    }
+  };
+
+  const isValidEmail = (email: string) => /^\S+@\S+\.\S+$/.test(email);
+
+  const sendVerification = (user: UserRow) => {
+    const token = newToken();
+    store.saveVerificationToken(hashToken(token), user.id, Date.now() + VERIFICATION_TTL_MS);
+    onVerificationToken(user.email, token);
+  };
+
+  return {
+    verifyAccessToken,
+
+    // For other services behind sign-in: the id of the user the token belongs to
+    authenticate: (accessToken: string | undefined): string => requireUser(accessToken).id,
+
+    register: async ({ name, email, password, avatarSeed }: RegisterRequest): Promise<AuthSession> => {
+      const trimmedEmail = email.trim();
+      if (!name.trim() || !isValidEmail(trimmedEmail)) {
+        throw new AuthError('INVALID_REQUEST', 'A name and a valid email are required.');
+      }
+      requireStrongPassword(password);
+      if (store.findUserByEmail(trimmedEmail)) {
+        throw new AuthError('EMAIL_TAKEN', 'An account with this email already exists.');
+      }
+
+      // The email doubles as the id, as it always has, so data saved on the device stays attached
+      store.insertUser({
+        id: trimmedEmail,
+        email: trimmedEmail,
+        name: name.trim(),
+        avatarSeed: avatarSeed || name + Math.random().toString(36).substring(7)
+      }, await hashPassword(password));
+      const user = store.findUserById(trimmedEmail)!;
+      sendVerification(user);
+      return issueSession(user);
+    },
+
+    login: async (email: string, password: string): Promise<AuthSession> => {
+      const user = store.findUserByEmail(email.trim());
+      if (!user) {
+        await verifyPassword(password, await dummyHash);
+        throw new AuthError('INVALID_CREDENTIALS', 'Invalid credentials');
+      }
+      await checkPassword(user, password);
+
+      // Hashes made with fewer iterations are upgraded now that we have the password
+      if (user.iterations < PBKDF2_ITERATIONS) {
+        store.setPassword(user.id, await hashPassword(password));
+      }
+      return issueSession(user);
+    },
+
+    // Other devices are signed out; this one gets a new session
+    changePassword: async (accessToken: string | undefined, currentPassword: string, newPassword: string): Promise<AuthSession> => {
+      const user = requireUser(accessToken);
+      await checkPassword(user, currentPassword);
+      requireStrongPassword(newPassword);
+      store.setPassword(user.id, await hashPassword(newPassword));
+      store.revokeRefreshTokens(user.id);
+      return issueSession(user);
+    },
+
+    changeEmail: async (accessToken: string | undefined, password: string, newEmail: string): Promise<AuthSession> => {
+      const user = requireUser(accessToken);
+      await checkPassword(user, password);
+      const email = newEmail.trim();
+      if (!isValidEmail(email)) throw new AuthError('INVALID_REQUEST', 'Enter a valid email address.');
+      const existing = store.findUserByEmail(email);
+      if (existing && existing.id !== user.id) throw new AuthError('EMAIL_TAKEN', 'An account with this email already exists.');
+
+      store.changeEmail(user.id, email);
+      const updated = store.findUserById(email)!;
+      sendVerification(updated);
+      return issueSession(updated);
+    },
+
+    deleteAccount: async (accessToken: string | undefined, password: string) => {
+      const user = requireUser(accessToken);
+      await checkPassword(user, password);
+      store.deleteUser(user.id);
+    },
+
+    // Swaps a refresh token for a new session; the old token stops working
+    refresh: (refreshToken: string): AuthSession => {
+      const userId = store.takeRefreshToken(hashToken(refreshToken));
+      const user = userId ? store.findUserById(userId) : null;
+      if (!user) throw new AuthError('UNAUTHORIZED', 'Your session has expired. Please sign in again.');
+      return issueSession(user);
+    },
+
+    logout: (refreshToken: string) => {
+      store.deleteRefreshToken(hashToken(refreshToken));
+    },
+
+    requestEmailVerification: (accessToken: string | undefined) => {
+      const user = requireUser(accessToken);
+      if (user.email_verified !== 1) sendVerification(user);
+    },
+
+    verifyEmail: (token: string): Account => {
+      const userId = store.takeVerificationToken(hashToken(token));
+      const user = userId ? store.findUserById(userId) : null;
+      if (!user) throw new AuthError('INVALID_TOKEN', 'This verification link is invalid or has expired.');
+      store.markEmailVerified(user.id);
+      return { ...toAccount(user), emailVerified: true };
+    },
+
+    updateProfile: (accessToken: string | undefined, name: string, avatarSeed: string): Account => {
+      const user = requireUser(accessToken);
+      if (!name.trim()) throw new AuthError('INVALID_REQUEST', 'Name cannot be empty.');
+      store.setProfile(user.id, name.trim(), avatarSeed);
+      return toAccount({ ...user, name: name.trim(), avatar_seed: avatarSeed });
+    }
+  };
+};
@@ -0,0 +1,157 @@
+import type { Database } from 'better-sqlite3';
+import { Account } from '../types';
+import { PasswordHash } from '../services/passwordService';
+
+// SQLite storage for accounts and tokens. Tokens are stored as SHA-256 hashes
+// so a copy of the database can't be used to sign in.
+
+export interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  avatar_seed: string;
+  password_hash: string;
+  salt: string;
+  iterations: number;
+  email_verified: number;
+  failed_logins: number;
+  locked_until: number | null;
+  created_at: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    name TEXT NOT NULL,
+    avatar_seed TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    salt TEXT NOT NULL,
+    iterations INTEGER NOT NULL,
+    email_verified INTEGER NOT NULL DEFAULT 0,
+    failed_logins INTEGER NOT NULL DEFAULT 0,
+    locked_until INTEGER,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS refresh_tokens (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS email_verifications (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    expires_at INTEGER NOT NULL
+  );
+`;
+
+export const toAccount = (row: UserRow): Account => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  avatarSeed: row.avatar_seed,
+  emailVerified: row.email_verified === 1
+});
+
+export const toPasswordHash = (row: UserRow): PasswordHash => ({
+  hash: row.password_hash,
+  salt: row.salt,
+  iterations: row.iterations
+});
+
+export type AuthStore = ReturnType<typeof openAuthStore>;
+
+export const openAuthStore = (db: Database) => {
+  db.exec(SCHEMA);
+
+  const findByEmail = db.prepare<[string], UserRow>('SELECT * FROM users WHERE email = ?');
+  const findById = db.prepare<[string], UserRow>('SELECT * FROM users WHERE id = ?');
+
+  // A token row is deleted as it's read, so each one works exactly once
+  const takeToken = (table: 'refresh_tokens' | 'email_verifications') => {
+    const select = db.prepare<[string], { user_id: string; expires_at: number }>(`SELECT user_id, expires_at FROM ${table} WHERE token_hash = ?`);
+    const remove = db.prepare(`DELETE FROM ${table} WHERE token_hash = ?`);
+    return db.transaction((tokenHash: string): string | null => {
+      const row = select.get(tokenHash);
+      if (!row) return null;
+      remove.run(tokenHash);
+      return row.expires_at > Date.now() ? row.user_id : null;
+    });
+  };
+
+  const insertUser = db.prepare(`
+    INSERT INTO users (id, email, name, avatar_seed, password_hash, salt, iterations, created_at)
+    VALUES (@id, @email, @name, @avatarSeed, @hash, @salt, @iterations, @createdAt)
+  `);
+  const setLoginState = db.prepare('UPDATE users SET failed_logins = ?, locked_until = ? WHERE id = ?');
+  const setPassword = db.prepare('UPDATE users SET password_hash = ?, salt = ?, iterations = ? WHERE id = ?');
+  const setProfile = db.prepare('UPDATE users SET name = ?, avatar_seed = ? WHERE id = ?');
+  const setVerified = db.prepare('UPDATE users SET email_verified = 1 WHERE id = ?');
+  const insertRefresh = db.prepare('INSERT INTO refresh_tokens (token_hash, user_id, expires_at) VALUES (?, ?, ?)');
+  const deleteRefresh = db.prepare('DELETE FROM refresh_tokens WHERE token_hash = ?');
+  const insertVerification = db.prepare('INSERT INTO email_verifications (token_hash, user_id, expires_at) VALUES (?, ?, ?)');
+  const revokeRefresh = db.prepare('DELETE FROM refresh_tokens WHERE user_id = ?');
+  const revokeVerifications = db.prepare('DELETE FROM email_verifications WHERE user_id = ?');
+  const setEmail = db.prepare('UPDATE users SET id = ?, email = ?, email_verified = 0 WHERE id = ?');
+  const deleteUser = db.prepare('DELETE FROM users WHERE id = ?');
+  const pruneRefresh = db.prepare('DELETE FROM refresh_tokens WHERE expires_at <= ?');
+  const pruneVerifications = db.prepare('DELETE FROM email_verifications WHERE expires_at <= ?');
+
+  return {
+    findUserByEmail: (email: string) => findByEmail.get(email) || null,
+    findUserById: (id: string) => findById.get(id) || null,
+
+    insertUser: (account: Omit<Account, 'emailVerified'>, password: PasswordHash) => {
+      insertUser.run({ ...account, ...password, createdAt: Date.now() });
+    },
+
+    setLoginState: (userId: string, failedLogins: number, lockedUntil: number | null) => {
+      setLoginState.run(failedLogins, lockedUntil, userId);
+    },
+
+    setPassword: (userId: string, password: PasswordHash) => {
+      setPassword.run(password.hash, password.salt, password.iterations, userId);
+    },
+
+    setProfile: (userId: string, name: string, avatarSeed: string) => {
+      setProfile.run(name, avatarSeed, userId);
+    },
+
+    markEmailVerified: (userId: string) => {
+      setVerified.run(userId);
+    },
+
+    // The email is also the id, so outstanding tokens for the old one go too
+    changeEmail: db.transaction((userId: string, email: string) => {
+      revokeRefresh.run(userId);
+      revokeVerifications.run(userId);
+      setEmail.run(email, email, userId);
+    }),
+
+    deleteUser: (userId: string) => {
+      deleteUser.run(userId); // Tokens follow through ON DELETE CASCADE
+    },
+
+    saveRefreshToken: (tokenHash: string, userId: string, expiresAt: number) => {
+      insertRefresh.run(tokenHash, userId, expiresAt);
+    },
+    takeRefreshToken: takeToken('refresh_tokens'),
+    deleteRefreshToken: (tokenHash: string) => {
+      deleteRefresh.run(tokenHash);
+    },
+    revokeRefreshTokens: (userId: string) => {
+      revokeRefresh.run(userId);
+    },
+
+    saveVerificationToken: (tokenHash: string, userId: string, expiresAt: number) => {
+      insertVerification.run(tokenHash, userId, expiresAt);
+    },
+    takeVerificationToken: takeToken('email_verifications'),
+
+    pruneExpired: () => {
+      const now = Date.now();
+      pruneRefresh.run(now);
+      pruneVerifications.run(now);
+    }
+  };
+};
@@ -0,0 +1,9 @@
+import Database from 'better-sqlite3';
+
+// The server's SQLite file, shared by accounts and sync
+export const openDatabase = (path: string) => {
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  return db;
+};
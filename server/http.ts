@@ -0,0 +1,40 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+import { AIErrorCode } from '../services/aiErrors';
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public code: AIErrorCode = 'INVALID_REQUEST') {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Read and parse a JSON body, refusing anything over maxBytes before it is buffered
+export const readJsonBody = async <T>(req: IncomingMessage, maxBytes: number): Promise<T> => {
+  const declared = Number(req.headers['content-length'] || 0);
+  if (declared > maxBytes) {
+    throw new HttpError(413, `Request too large (limit ${Math.round(maxBytes / 1024)} KB).`, 'REQUEST_TOO_LARGE');
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req) {
+    received += chunk.length;
+    if (received > maxBytes) {
+      req.destroy();
+      throw new HttpError(413, `Request too large (limit ${Math.round(maxBytes / 1024)} KB).`, 'REQUEST_TOO_LARGE');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}') as T;
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON.');
+  }
+};
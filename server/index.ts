@@ -0,0 +1,298 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { AIProvider, QuizRequest, SummaryRequest, StudyContent, ExplanationRequest, GradeRequest, getAIConfig } from '../services/aiProvider';
+import { createGeminiProvider } from '../services/geminiProvider';
+import { createMockProvider } from '../services/mockProvider';
+import { AIErrorCode, toAIError } from '../services/aiErrors';
+import { AIPersonality, Difficulty, QuestionType, QuizMode, QuizSettings } from '../types';
+import { AuthError, AUTH_STATUS_BY_CODE } from '../services/authErrors';
+import { HttpError, sendJson, readJsonBody } from './http';
+import { createRateLimiter } from './rateLimiter';
+import { openDatabase } from './database';
+import { openAuthStore } from './authStore';
+import { createAuthService } from './auth';
+import { openSyncStore } from './syncStore';
+import { createSyncService } from './sync';
+
+// Small backend that holds the API key and forwards AI calls for the browser,
+// and keeps user accounts and their synced progress in a local SQLite file.
+// Run with `npm run server`; the Vite dev server proxies /api here.
+
+const PORT = Number(process.env.API_PORT || 8787);
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES || 20 * 1024 * 1024);
+// One quiz on long material can take a batch per question, each possibly
+// regenerated once, so this fits a 20-question quiz with room for grading calls
+const RATE_LIMIT_MAX = Number(process.env.RATE_LIMIT_MAX || 60);
+const RATE_LIMIT_WINDOW_MS = Number(process.env.RATE_LIMIT_WINDOW_MS || 60 * 1000);
+const AUTH_RATE_LIMIT_MAX = Number(process.env.AUTH_RATE_LIMIT_MAX || 10);
+const SYNC_RATE_LIMIT_MAX = Number(process.env.SYNC_RATE_LIMIT_MAX || 30);
+const AUTH_DB_PATH = process.env.AUTH_DB_PATH || 'synapsy.db';
+const APP_URL = process.env.APP_URL || 'http://localhost:5173';
+
+if (!process.env.AUTH_SECRET) {
+  console.warn('AUTH_SECRET is not set; using a random one, so access tokens stop working when the server restarts.');
+}
+const AUTH_SECRET = process.env.AUTH_SECRET || randomBytes(32).toString('hex');
+
+const config = getAIConfig();
+const provider: AIProvider = config.provider === 'gemini'
+  ? createGeminiProvider({ apiKey: config.apiKey, model: config.model })
+  : createMockProvider();
+
+// Separate budgets, so signing in or background sync never use up quiz generation
+const limiters = {
+  ai: createRateLimiter(RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_MS),
+  auth: createRateLimiter(AUTH_RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_MS),
+  sync: createRateLimiter(SYNC_RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_MS)
+};
+setInterval(() => Object.values(limiters).forEach(limiter => limiter.prune()), RATE_LIMIT_WINDOW_MS).unref();
+
+const db = openDatabase(AUTH_DB_PATH);
+const authStore = openAuthStore(db);
+const auth = createAuthService(authStore, {
+  secret: AUTH_SECRET,
+  // No mailer yet: the link goes to the server log
+  onVerificationToken: (email, token) => console.log(`Verify ${email}: ${APP_URL}/?verify=${encodeURIComponent(token)}`)
+});
+setInterval(() => authStore.pruneExpired(), 60 * 60 * 1000).unref();
+const sync = createSyncService(openSyncStore(db));
+
+const getBearerToken = (req: IncomingMessage) => {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+};
+
+const getAddressKey = (req: IncomingMessage) => `ip:${req.socket.remoteAddress || 'unknown'}`;
+
+// Rate limits are per signed-in user, otherwise per address; nothing the client
+// merely claims about itself counts
+const getClientKey = (req: IncomingMessage) => {
+  const token = getBearerToken(req);
+  const verifiedId = token ? auth.verifyAccessToken(token) : null;
+  return verifiedId ? `user:${verifiedId.toLowerCase()}` : getAddressKey(req);
+};
+
+// Sign-in is limited per address, so password guesses can't spread over accounts
+const checkRateLimit = (path: string, req: IncomingMessage) => {
+  if (path.startsWith('/api/auth/')) return limiters.auth.check(getAddressKey(req));
+  if (path === '/api/sync') return limiters.sync.check(getClientKey(req));
+  return limiters.ai.check(getClientKey(req));
+};
+
+const isStudyContent = (value: any): value is StudyContent =>
+  !!value && typeof value.text === 'string' && Array.isArray(value.files) &&
+  value.files.every((f: any) => f && typeof f.data === 'string' && typeof f.mimeType === 'string');
+
+const MAX_INSTRUCTIONS_CHARS = 20000; // Batch, avoid-list and repair instructions together
+const MAX_QUESTIONS_PER_CALL = 50;
+
+const QUIZ_MODES: Record<QuizMode, true> = {
+  MIXED: true, MULTIPLE_CHOICE: true, TRUE_FALSE: true, SHORT_ANSWER: true, CONCEPTUAL: true, FLASHCARD: true,
+  FILL_IN_THE_BLANK: true, BOSS_BATTLE: true, REVIEW: true, MISTAKES: true, EXAM: true
+};
+const DIFFICULTIES: Difficulty[] = ['EASY', 'MEDIUM', 'HARD'];
+const QUESTION_TYPES = Object.values(QuestionType);
+const PERSONALITIES = Object.values(AIPersonality);
+
+const optionalText = (value: unknown, field: string, maxChars: number): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new HttpError(400, `Invalid ${field}.`);
+  if (value.length > maxChars) throw new HttpError(400, `${field} is too long.`);
+  return value;
+};
+
+const toNumber = (value: unknown, min: number, max: number, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(Math.max(n, min), max) : fallback;
+};
+
+// Only the settings the prompt uses are passed on, each checked
+const parseQuizSettings = (value: any): QuizSettings | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object') throw new HttpError(400, 'Invalid settings.');
+  if (!DIFFICULTIES.includes(value.difficulty)) throw new HttpError(400, 'Invalid difficulty.');
+  if (!Array.isArray(value.allowedTypes) || !value.allowedTypes.every((t: unknown) => QUESTION_TYPES.includes(t as QuestionType))) {
+    throw new HttpError(400, 'Invalid question types.');
+  }
+  return {
+    difficulty: value.difficulty,
+    timeLimit: toNumber(value.timeLimit, 0, 3600, 0),
+    examDuration: value.examDuration === undefined ? undefined : toNumber(value.examDuration, 0, 600, 0),
+    allowedTypes: value.allowedTypes,
+    personality: PERSONALITIES.includes(value.personality) ? value.personality : AIPersonality.PROFESSOR,
+    enableExplainItBack: value.enableExplainItBack === true,
+    enableAIGrading: value.enableAIGrading === true,
+    adaptiveDifficulty: value.adaptiveDifficulty === true
+  };
+};
+
+const parseQuizRequest = (body: any): QuizRequest => {
+  if (!isStudyContent(body?.content)) throw new HttpError(400, 'Missing study content.');
+  if (!Object.keys(QUIZ_MODES).includes(body.mode)) throw new HttpError(400, 'Invalid quiz mode.');
+  return {
+    content: { text: body.content.text, files: body.content.files.map(({ name, mimeType, data }: any) => ({ name: String(name || ''), mimeType, data })) },
+    mode: body.mode,
+    count: Math.round(toNumber(body.count, 1, MAX_QUESTIONS_PER_CALL, 5)),
+    settings: parseQuizSettings(body.settings),
+    extraInstructions: optionalText(body.extraInstructions, 'extraInstructions', MAX_INSTRUCTIONS_CHARS)
+  };
+};
+
+type Handler = (body: any, signal: AbortSignal, req: IncomingMessage) => Promise<unknown>;
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value) throw new HttpError(400, `Missing ${field}.`);
+  return value;
+};
+
+const STATUS_BY_CODE: Record<AIErrorCode, number> = {
+  QUOTA_EXCEEDED: 429,
+  RATE_LIMITED: 429,
+  SAFETY_BLOCKED: 422,
+  MALFORMED_RESPONSE: 502,
+  PROVIDER_UNAVAILABLE: 503,
+  NETWORK: 502,
+  REQUEST_TOO_LARGE: 413,
+  INVALID_REQUEST: 400,
+  ABORTED: 499,
+  UNKNOWN: 502
+};
+
+const routes: Record<string, Handler> = {
+  '/api/provider': async () => ({ provider: provider.name, model: config.model }),
+
+  '/api/quiz': async (body, signal) => {
+    const questions = await provider.generateQuiz(parseQuizRequest(body), { signal });
+    return { questions };
+  },
+
+  '/api/summary': async (body: SummaryRequest, signal) => {
+    if (!isStudyContent(body.content)) throw new HttpError(400, 'Missing study content.');
+    const summary = await provider.generateSummary({
+      content: body.content,
+      extraInstructions: typeof body.extraInstructions === 'string' ? body.extraInstructions : undefined
+    }, { signal });
+    return { summary };
+  },
+
+  '/api/validate-explanation': async (body: ExplanationRequest, signal) => {
+    if (typeof body.conceptQuestion !== 'string' || typeof body.userExplanation !== 'string') {
+      throw new HttpError(400, 'Missing explanation fields.');
+    }
+    return provider.validateExplanation({
+      conceptQuestion: body.conceptQuestion,
+      correctConcept: String(body.correctConcept || ''),
+      userExplanation: body.userExplanation
+    }, { signal });
+  },
+
+  '/api/grade-answer': async (body: GradeRequest, signal) => {
+    if (typeof body.question !== 'string' || typeof body.correctAnswer !== 'string' || typeof body.userAnswer !== 'string') {
+      throw new HttpError(400, 'Missing grading fields.');
+    }
+    return provider.gradeAnswer({
+      question: body.question,
+      correctAnswer: body.correctAnswer,
+      acceptedAnswers: Array.isArray(body.acceptedAnswers) ? body.acceptedAnswers.filter(a => typeof a === 'string') : [],
+      userAnswer: body.userAnswer
+    }, { signal });
+  },
+
+  '/api/auth/register': async (body) => auth.register({
+    name: requireString(body.name, 'name'),
+    email: requireString(body.email, 'email'),
+    password: requireString(body.password, 'password'),
+    avatarSeed: typeof body.avatarSeed === 'string' ? body.avatarSeed : undefined
+  }),
+
+  '/api/auth/login': async (body) => auth.login(requireString(body.email, 'email'), requireString(body.password, 'password')),
+
+  '/api/auth/refresh': async (body) => auth.refresh(requireString(body.refreshToken, 'refresh token')),
+
+  '/api/auth/logout': async (body) => {
+    auth.logout(requireString(body.refreshToken, 'refresh token'));
+    return { ok: true };
+  },
+
+  '/api/auth/request-verification': async (_body, _signal, req) => {
+    auth.requestEmailVerification(getBearerToken(req));
+    return { ok: true };
+  },
+
+  '/api/auth/verify-email': async (body) => ({ account: auth.verifyEmail(requireString(body.token, 'token')) }),
+
+  '/api/auth/change-password': async (body, _signal, req) =>
+    auth.changePassword(getBearerToken(req), requireString(body.currentPassword, 'current password'), requireString(body.newPassword, 'new password')),
+
+  '/api/auth/change-email': async (body, _signal, req) =>
+    auth.changeEmail(getBearerToken(req), requireString(body.password, 'password'), requireString(body.email, 'email')),
+
+  '/api/auth/delete-account': async (body, _signal, req) => {
+    await auth.deleteAccount(getBearerToken(req), requireString(body.password, 'password'));
+    return { ok: true };
+  },
+
+  '/api/auth/profile': async (body, _signal, req) => ({
+    account: auth.updateProfile(getBearerToken(req), requireString(body.name, 'name'), requireString(body.avatarSeed, 'avatar'))
+  }),
+
+  '/api/sync': async (body, _signal, req) => sync.sync(auth.authenticate(getBearerToken(req)), {
+    deviceId: requireString(body.deviceId, 'device id'),
+    cursor: Number(body.cursor) || 0,
+    changes: body.changes
+  })
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const path = (req.url || '').split('?')[0];
+  const handler = routes[path];
+
+  if (!handler) {
+    sendJson(res, 404, { error: 'Not found.' });
+    return;
+  }
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed.' }, { Allow: 'POST' });
+    return;
+  }
+
+  const limit = checkRateLimit(path, req);
+  if (!limit.allowed) {
+    sendJson(res, 429, { error: 'Too many requests. Please slow down.', code: 'RATE_LIMITED' }, { 'Retry-After': String(limit.retryAfterSeconds) });
+    return;
+  }
+
+  // Stop the upstream call if the browser goes away (e.g. the user hit Cancel)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const body = await readJsonBody(req, MAX_BODY_BYTES);
+    const result = await handler(body, controller.signal, req);
+    sendJson(res, 200, result, { 'X-RateLimit-Remaining': String(limit.remaining) });
+  } catch (e: unknown) {
+    if (e instanceof HttpError) {
+      sendJson(res, e.status, { error: e.message, code: e.code });
+      return;
+    }
+    if (e instanceof AuthError) {
+      sendJson(res, AUTH_STATUS_BY_CODE[e.code], { error: e.message, code: e.code });
+      return;
+    }
+    const err = toAIError(e);
+    if (err.code === 'ABORTED') return;
+    console.error(`[${path}]`, e);
+    sendJson(res, STATUS_BY_CODE[err.code], { error: err.message, code: err.code });
+  }
+};
+
+createServer((req, res) => {
+  handleRequest(req, res).catch(e => {
+    console.error(e);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error.' });
+  });
+}).listen(PORT, () => {
+  console.log(`Synapsy API listening on http://localhost:${PORT} (provider: ${provider.name}, model: ${config.model})`);
+});
@@ -0,0 +1,44 @@
+// Fixed-window request counter per user. In memory only: one server process, reset on restart.
+
+interface Window {
+  startedAt: number;
+  count: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export const createRateLimiter = (maxRequests: number, windowMs: number) => {
+  const windows = new Map<string, Window>();
+
+  const check = (key: string, now: number = Date.now()): RateLimitResult => {
+    let current = windows.get(key);
+    if (!current || now - current.startedAt >= windowMs) {
+      current = { startedAt: now, count: 0 };
+      windows.set(key, current);
+    }
+
+    if (current.count >= maxRequests) {
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((current.startedAt + windowMs - now) / 1000)
+      };
+    }
+
+    current.count += 1;
+    return { allowed: true, remaining: maxRequests - current.count, retryAfterSeconds: 0 };
+  };
+
+  // Drop expired windows so the map doesn't grow with every user ever seen
+  const prune = (now: number = Date.now()) => {
+    for (const [key, value] of windows) {
+      if (now - value.startedAt >= windowMs) windows.delete(key);
+    }
+  };
+
+  return { check, prune };
+};
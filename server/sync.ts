@@ -0,0 +1,54 @@
+import { SyncChange, SyncResponse } from '../types';
+import { HttpError } from './http';
+import { SyncStore } from './syncStore';
+
+// Relays progress between a user's devices: each request pushes what the device
+// recorded while offline and pulls what the user's other devices sent since.
+
+const MAX_PUSH = 200;
+const PAGE_SIZE = 200;
+const MAX_CHANGE_BYTES = 512 * 1024; // A history entry carries the whole quiz
+
+export interface SyncRequest {
+  deviceId: string;
+  cursor: number;
+  changes: SyncChange[];
+}
+
+const isSyncChange = (value: any): value is SyncChange => {
+  if (!value || typeof value.id !== 'string' || !value.id || value.id.length > 100) return false;
+  if (typeof value.deviceId !== 'string' || !value.deviceId || typeof value.createdAt !== 'number') return false;
+  switch (value.type) {
+    case 'counters':
+      return !!value.totals && ['totalMinutesStudied', 'quizzesCompleted', 'totalXp'].every(
+        field => Number.isFinite(value.totals[field]) && value.totals[field] >= 0
+      );
+    case 'study':
+      return typeof value.day === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.day) && typeof value.at === 'number';
+    case 'history':
+      return !!value.item && typeof value.item.id === 'string' && typeof value.item.timestamp === 'number';
+    default:
+      return false;
+  }
+};
+
+export const createSyncService = (store: SyncStore) => ({
+  sync: (userId: string, { deviceId, cursor, changes }: SyncRequest): SyncResponse => {
+    if (!Array.isArray(changes) || changes.length > MAX_PUSH) {
+      throw new HttpError(400, `Send between 0 and ${MAX_PUSH} changes at a time.`);
+    }
+    const invalid = changes.findIndex(change => !isSyncChange(change) || JSON.stringify(change).length > MAX_CHANGE_BYTES);
+    if (invalid !== -1) throw new HttpError(400, `Change ${invalid + 1} is not a valid sync change.`);
+
+    store.appendChanges(userId, changes);
+
+    const since = Math.max(Number(cursor) || 0, 0);
+    const page = store.getChangesSince(userId, since, PAGE_SIZE);
+    return {
+      // The device already has its own changes
+      changes: page.changes.filter(change => change.deviceId !== deviceId),
+      cursor: page.lastSeq ?? since,
+      hasMore: page.changes.length === PAGE_SIZE
+    };
+  }
+});
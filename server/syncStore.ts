@@ -0,0 +1,53 @@
+import type { Database } from 'better-sqlite3';
+import { SyncChange } from '../types';
+
+// SQLite storage for sync: an append-only log of each user's changes. The server
+// doesn't interpret them; devices merge what they pull (see services/syncService).
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sync_changes (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE ON UPDATE CASCADE,
+    change_id TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    received_at INTEGER NOT NULL,
+    UNIQUE (user_id, change_id)
+  );
+`;
+
+export interface SyncPage {
+  changes: SyncChange[];
+  lastSeq: number | null; // Where the next page starts; null when there was nothing new
+}
+
+export type SyncStore = ReturnType<typeof openSyncStore>;
+
+// Needs the users table, so open the auth store first
+export const openSyncStore = (db: Database) => {
+  db.exec(SCHEMA);
+
+  // A change sent twice (e.g. the response was lost) is only stored once
+  const insertChange = db.prepare(`
+    INSERT OR IGNORE INTO sync_changes (user_id, change_id, device_id, payload, received_at)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const selectSince = db.prepare<[string, number, number], { seq: number; payload: string }>(
+    'SELECT seq, payload FROM sync_changes WHERE user_id = ? AND seq > ? ORDER BY seq LIMIT ?'
+  );
+
+  return {
+    appendChanges: db.transaction((userId: string, changes: SyncChange[]) => {
+      const now = Date.now();
+      changes.forEach(change => insertChange.run(userId, change.id, change.deviceId, JSON.stringify(change), now));
+    }),
+
+    getChangesSince: (userId: string, seq: number, limit: number): SyncPage => {
+      const rows = selectSince.all(userId, seq, limit);
+      return {
+        changes: rows.map(row => JSON.parse(row.payload)),
+        lastSeq: rows.length > 0 ? rows[rows.length - 1].seq : null
+      };
+    }
+  };
+};
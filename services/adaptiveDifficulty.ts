@@ -0,0 +1,39 @@
+import { Difficulty, QuizHistoryItem } from '../types';
+
+// Adaptive difficulty: a rolling window of recent answers decides whether the
+// next questions should be harder, easier or stay where they are.
+
+const LEVELS: Difficulty[] = ['EASY', 'MEDIUM', 'HARD'];
+
+export const ADAPTIVE_WINDOW = 4;          // Answers needed before the level can move
+export const FOLLOW_UP_COUNT = 3;          // Questions requested at the new level
+const STEP_UP_ACCURACY = 0.75;
+const STEP_DOWN_ACCURACY = 0.5;
+const SLOW_ANSWER_MS = 45_000;             // Right, but only after a long think
+
+export interface RecentAnswer {
+  score: number;  // 0..1 credit
+  timeMs: number;
+}
+
+const shift = (level: Difficulty, by: number): Difficulty =>
+  LEVELS[Math.min(LEVELS.length - 1, Math.max(0, LEVELS.indexOf(level) + by))];
+
+// Accurate and quick steps up; inaccurate, or only middling and slow, steps down
+export const assessDifficulty = (level: Difficulty, recent: RecentAnswer[]): Difficulty => {
+  if (recent.length < ADAPTIVE_WINDOW) return level;
+  const window = recent.slice(-ADAPTIVE_WINDOW);
+  const accuracy = window.reduce((sum, a) => sum + a.score, 0) / window.length;
+  const averageMs = window.reduce((sum, a) => sum + a.timeMs, 0) / window.length;
+  const isSlow = averageMs > SLOW_ANSWER_MS;
+
+  if (accuracy >= STEP_UP_ACCURACY && !isSlow) return shift(level, 1);
+  if (accuracy < STEP_DOWN_ACCURACY || (accuracy < STEP_UP_ACCURACY && isSlow)) return shift(level, -1);
+  return level;
+};
+
+// Where the last adaptive session on this topic ended, if there was one
+export const getStartingDifficulty = (history: QuizHistoryItem[], topic: string): Difficulty | null => {
+  const last = history.find(item => item.topic === topic && item.finalDifficulty);
+  return last?.finalDifficulty || null;
+};
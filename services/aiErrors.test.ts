@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { withRetry, AIError, AbortedError, NetworkError, QuotaExceededError, RateLimitError, aiErrorFromCode, toAIError } from './aiErrors';
+
+const fast = { baseDelayMs: 1, maxDelayMs: 5 };
+
+describe('withRetry', () => {
+  it('retries transient failures until one succeeds', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new NetworkError())
+      .mockRejectedValueOnce(new RateLimitError())
+      .mockResolvedValue('ok');
+    await expect(withRetry(fn, fast)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry with the last error', async () => {
+    const fn = vi.fn().mockRejectedValue(new NetworkError('down'));
+    await expect(withRetry(fn, { ...fast, retries: 2 })).rejects.toThrow('down');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that would fail again', async () => {
+    const fn = vi.fn().mockRejectedValue(new QuotaExceededError());
+    await expect(withRetry(fn, fast)).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not wait out a Retry-After longer than the longest backoff', async () => {
+    const fn = vi.fn().mockRejectedValue(new RateLimitError('slow down', 60_000));
+    await expect(withRetry(fn, fast)).rejects.toBeInstanceOf(RateLimitError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockImplementation(async () => {
+      controller.abort();
+      throw new NetworkError();
+    });
+    await expect(withRetry(fn, { ...fast, signal: controller.signal })).rejects.toBeInstanceOf(AbortedError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('normalizes plain errors into AIErrors', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('boom'));
+    const error = await withRetry(fn, fast).catch(e => e);
+    expect(error).toBeInstanceOf(AIError);
+  });
+});
+
+describe('aiErrorFromCode', () => {
+  it('rebuilds the typed error the server sent', () => {
+    const error = aiErrorFromCode('RATE_LIMITED', 'Too many', 3000);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ retryable: true, retryAfterMs: 3000, message: 'Too many' });
+    expect(aiErrorFromCode('nonsense', 'x').code).toBe('UNKNOWN');
+  });
+
+  it('keeps an AIError as it is', () => {
+    const error = new QuotaExceededError();
+    expect(toAIError(error)).toBe(error);
+  });
+});
@@ -0,0 +1,180 @@
+// Typed failures for AI calls, shared by the browser and the server so an error
+// keeps its meaning on both sides of the proxy.
+
+export type AIErrorCode =
+  | 'QUOTA_EXCEEDED'
+  | 'RATE_LIMITED'
+  | 'SAFETY_BLOCKED'
+  | 'MALFORMED_RESPONSE'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'NETWORK'
+  | 'REQUEST_TOO_LARGE'
+  | 'INVALID_REQUEST'
+  | 'ABORTED'
+  | 'UNKNOWN';
+
+export class AIError extends Error {
+  constructor(
+    public code: AIErrorCode,
+    message: string,
+    public retryable: boolean = false,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'AIError';
+  }
+}
+
+export class QuotaExceededError extends AIError {
+  constructor(message = "AI quota exhausted.") {
+    super('QUOTA_EXCEEDED', message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class RateLimitError extends AIError {
+  constructor(message = "Too many requests.", retryAfterMs?: number) {
+    super('RATE_LIMITED', message, true, retryAfterMs);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class SafetyBlockedError extends AIError {
+  constructor(message = "Blocked by the AI safety filter.") {
+    super('SAFETY_BLOCKED', message);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class MalformedResponseError extends AIError {
+  constructor(message = "The AI response could not be parsed.") {
+    super('MALFORMED_RESPONSE', message, true);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class ProviderUnavailableError extends AIError {
+  constructor(message = "The AI service is unavailable.") {
+    super('PROVIDER_UNAVAILABLE', message, true);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+export class NetworkError extends AIError {
+  constructor(message = "Network request failed.") {
+    super('NETWORK', message, true);
+    this.name = 'NetworkError';
+  }
+}
+
+export class AbortedError extends AIError {
+  constructor(message = "Request cancelled.") {
+    super('ABORTED', message);
+    this.name = 'AbortedError';
+  }
+}
+
+// Rebuild a typed error from the { code, error } body the server sends
+export const aiErrorFromCode = (code: string | undefined, message: string, retryAfterMs?: number): AIError => {
+  switch (code) {
+    case 'QUOTA_EXCEEDED': return new QuotaExceededError(message);
+    case 'RATE_LIMITED': return new RateLimitError(message, retryAfterMs);
+    case 'SAFETY_BLOCKED': return new SafetyBlockedError(message);
+    case 'MALFORMED_RESPONSE': return new MalformedResponseError(message);
+    case 'PROVIDER_UNAVAILABLE': return new ProviderUnavailableError(message);
+    case 'NETWORK': return new NetworkError(message);
+    case 'ABORTED': return new AbortedError(message);
+    case 'REQUEST_TOO_LARGE':
+    case 'INVALID_REQUEST':
+      return new AIError(code, message);
+    default: return new AIError('UNKNOWN', message);
+  }
+};
+
+export const isAbortError = (e: unknown): boolean =>
+  (e instanceof AIError && e.code === 'ABORTED') ||
+  (e instanceof Error && e.name === 'AbortError');
+
+// Normalize anything thrown (SDK errors, fetch failures, plain Errors) into an AIError
+export const toAIError = (e: unknown): AIError => {
+  if (e instanceof AIError) return e;
+  if (isAbortError(e)) return new AbortedError();
+
+  const err = e as any;
+  const message: string = err?.message || String(e);
+  const status: number | undefined = typeof err?.status === 'number' ? err.status : undefined;
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return /quota/i.test(message) ? new QuotaExceededError(message) : new RateLimitError(message);
+  }
+  if (status === 400 && /safety|blocked/i.test(message)) return new SafetyBlockedError(message);
+  if (status !== undefined && status >= 500) return new ProviderUnavailableError(message);
+  if (status === 400 || status === 404) return new AIError('INVALID_REQUEST', message);
+  if (e instanceof TypeError && /fetch|network/i.test(message)) return new NetworkError(message);
+  if (e instanceof SyntaxError) return new MalformedResponseError(message);
+
+  return new AIError('UNKNOWN', message);
+};
+
+// What to tell the user; `action` is e.g. "generate quiz"
+export const getAIErrorMessage = (e: unknown, action: string): string => {
+  const err = toAIError(e);
+  switch (err.code) {
+    case 'QUOTA_EXCEEDED': return "The AI quota is used up for now. Please try again later.";
+    case 'RATE_LIMITED': return "You're going a bit fast! Wait a moment and try again.";
+    case 'SAFETY_BLOCKED': return `Couldn't ${action}: the AI flagged this content. Try different material.`;
+    case 'MALFORMED_RESPONSE': return `The AI sent back something unreadable. Please try to ${action} again.`;
+    case 'PROVIDER_UNAVAILABLE': return "The AI service is temporarily down. Try again in a minute.";
+    case 'NETWORK': return `Failed to ${action}. Please check your connection.`;
+    case 'REQUEST_TOO_LARGE': return "Your notes and files are too large. Remove some files and try again.";
+    case 'INVALID_REQUEST': return `Couldn't ${action}: the request was rejected.`;
+    case 'ABORTED': return "Cancelled.";
+    default: return `Failed to ${action}. Please try again.`;
+  }
+};
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+// Resolve after ms, or reject straight away if the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new AbortedError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AbortedError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Retry transient failures with exponential backoff and full jitter
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  { signal, retries = 3, baseDelayMs = 500, maxDelayMs = 8000 }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new AbortedError();
+    try {
+      return await fn();
+    } catch (e) {
+      const err = toAIError(e);
+      if (signal?.aborted) throw new AbortedError();
+      if (!err.retryable || attempt >= retries) throw err;
+      // A server-mandated wait longer than we're willing to sit through isn't worth retrying
+      if (err.retryAfterMs !== undefined && err.retryAfterMs > maxDelayMs) throw err;
+
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(Math.max(backoff, err.retryAfterMs || 0), signal);
+    }
+  }
+};
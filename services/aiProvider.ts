@@ -0,0 +1,92 @@
+import { QuizQuestion, QuizMode, QuizSettings } from "../types";
+
+// 'proxy' is the browser's view of the backend, which in turn runs 'gemini' or 'mock'
+export type ProviderName = 'gemini' | 'mock' | 'proxy';
+
+export const DEFAULT_MODEL = "gemini-2.5-flash";
+
+// A file already read into base64, ready to be sent to a model
+export interface InlineFile {
+  name: string;
+  mimeType: string;
+  data: string;
+}
+
+// Everything the user gave us to study from
+export interface StudyContent {
+  text: string;
+  files: InlineFile[];
+}
+
+export interface QuizRequest {
+  content: StudyContent;
+  mode: QuizMode;
+  count: number;
+  settings?: QuizSettings;
+  extraInstructions?: string; // Appended to the prompt, e.g. when asking for replacements
+}
+
+export interface SummaryRequest {
+  content: StudyContent;
+  extraInstructions?: string; // Appended to the prompt, e.g. to merge section summaries
+}
+
+export interface ExplanationRequest {
+  conceptQuestion: string;
+  correctConcept: string;
+  userExplanation: string;
+}
+
+export interface ExplanationResult {
+  isCorrect: boolean;
+  feedback: string;
+}
+
+export interface GradeRequest {
+  question: string;
+  correctAnswer: string;
+  acceptedAnswers: string[];
+  userAnswer: string;
+}
+
+export interface GradeResult {
+  score: number; // 0..1
+  rationale: string;
+}
+
+export interface CallOptions {
+  signal?: AbortSignal;
+}
+
+// Every AI backend (Gemini, the offline mock, ...) implements this.
+// Failures are thrown as AIError subclasses (see aiErrors.ts).
+export interface AIProvider {
+  readonly name: ProviderName;
+  // Which provider and model actually generate, e.g. "gemini/gemini-2.5-flash"; part of cache keys
+  describe(options?: CallOptions): Promise<string>;
+  generateQuiz(request: QuizRequest, options?: CallOptions): Promise<QuizQuestion[]>;
+  generateSummary(request: SummaryRequest, options?: CallOptions): Promise<string>;
+  validateExplanation(request: ExplanationRequest, options?: CallOptions): Promise<ExplanationResult>;
+  gradeAnswer(request: GradeRequest, options?: CallOptions): Promise<GradeResult>;
+}
+
+export interface AIConfig {
+  provider: ProviderName;
+  model: string;
+  apiKey?: string;
+}
+
+// Server-side provider and model, read from the environment (see server/index.ts).
+// Without an API key we fall back to the mock so the app still runs offline.
+export const getAIConfig = (): AIConfig => {
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY || undefined;
+  const requested = (process.env.AI_PROVIDER || '').toLowerCase();
+  let provider: ProviderName = apiKey ? 'gemini' : 'mock';
+  if (requested === 'gemini' || requested === 'mock') provider = requested;
+
+  return {
+    provider,
+    model: process.env.AI_MODEL || DEFAULT_MODEL,
+    apiKey
+  };
+};
@@ -0,0 +1,128 @@
+import { Account, AuthSession } from '../types';
+import { AuthError, authErrorFromCode } from './authErrors';
+
+// Browser side of the auth server. The refresh token survives reloads in
+// localStorage; the access token only ever lives in memory.
+
+const REFRESH_TOKEN_KEY = 'gdg_app_refresh_token';
+const REFRESH_LOCK = 'synapsy_auth_refresh'; // Shared by every tab of the app
+const REFRESH_MARGIN_MS = 30 * 1000; // Renew a little before the access token runs out
+
+interface AuthClientOptions {
+  baseUrl?: string;
+}
+
+export const createAuthClient = ({ baseUrl = '' }: AuthClientOptions = {}) => {
+  let session: AuthSession | null = null;
+  let refreshing: Promise<AuthSession | null> | null = null;
+
+  const post = async <T>(path: string, body: unknown, accessToken?: string): Promise<T> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (accessToken) headers['Authorization'] = `Bearer ${accessToken}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+    } catch {
+      throw new AuthError('NETWORK', "Can't reach the Synapsy server. Check your connection and try again.");
+    }
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw authErrorFromCode(data?.code, data?.error || `Request failed (${response.status}).`);
+    }
+    return data as T;
+  };
+
+  const keep = (next: AuthSession) => {
+    session = next;
+    localStorage.setItem(REFRESH_TOKEN_KEY, next.refreshToken);
+    return next;
+  };
+
+  const forget = () => {
+    session = null;
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  };
+
+  const refresh = async (): Promise<AuthSession | null> => {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) return null;
+    try {
+      return keep(await post<AuthSession>('/api/auth/refresh', { refreshToken }));
+    } catch (e) {
+      // Offline, the token may still be good next time
+      if (e instanceof AuthError && e.code === 'NETWORK') throw e;
+      // Another tab may have used it first and stored the token it got back
+      if (localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken) return refresh();
+      // Rejected, it never will be
+      forget();
+      throw e;
+    }
+  };
+
+  // Trade the stored refresh token for a new session. Each token works once, so
+  // concurrent callers share the same request, and other tabs wait their turn
+  // where the browser supports locks.
+  const restore = (): Promise<AuthSession | null> => {
+    if (refreshing) return refreshing;
+    if (!localStorage.getItem(REFRESH_TOKEN_KEY)) return Promise.resolve(null);
+
+    const locked = async () => navigator.locks ? await navigator.locks.request(REFRESH_LOCK, refresh) : refresh();
+    refreshing = locked().finally(() => { refreshing = null; });
+    return refreshing;
+  };
+
+  const getAccessToken = async (): Promise<string | undefined> => {
+    if (session && session.expiresAt - REFRESH_MARGIN_MS > Date.now()) return session.accessToken;
+    const renewed = await restore().catch(() => null);
+    return renewed?.accessToken;
+  };
+
+  return {
+    restore,
+    getAccessToken,
+
+    register: async (name: string, email: string, password: string, avatarSeed?: string) =>
+      keep(await post<AuthSession>('/api/auth/register', { name, email, password, avatarSeed })),
+
+    login: async (email: string, password: string) =>
+      keep(await post<AuthSession>('/api/auth/login', { email, password })),
+
+    logout: async () => {
+      const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+      forget();
+      // Signed out locally either way; the server call just revokes the token early
+      if (refreshToken) await post('/api/auth/logout', { refreshToken }).catch(() => {});
+    },
+
+    changePassword: async (currentPassword: string, newPassword: string) =>
+      keep(await post<AuthSession>('/api/auth/change-password', { currentPassword, newPassword }, await getAccessToken())),
+
+    changeEmail: async (password: string, email: string) =>
+      keep(await post<AuthSession>('/api/auth/change-email', { password, email }, await getAccessToken())),
+
+    deleteAccount: async (password: string) => {
+      await post('/api/auth/delete-account', { password }, await getAccessToken());
+      forget();
+    },
+
+    requestEmailVerification: async () => {
+      await post('/api/auth/request-verification', {}, await getAccessToken());
+    },
+
+    verifyEmail: async (token: string): Promise<Account> => {
+      const { account } = await post<{ account: Account }>('/api/auth/verify-email', { token });
+      if (session?.account.id === account.id) session = { ...session, account };
+      return account;
+    },
+
+    updateProfile: async (name: string, avatarSeed: string): Promise<Account> => {
+      const { account } = await post<{ account: Account }>('/api/auth/profile', { name, avatarSeed }, await getAccessToken());
+      if (session) session = { ...session, account };
+      return account;
+    }
+  };
+};
+
+export const authClient = createAuthClient();
@@ -0,0 +1,38 @@
+// Typed account failures, shared by the browser and the server like aiErrors,
+// so the sign-in screen can tell a wrong password from a locked account.
+
+export type AuthErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'ACCOUNT_LOCKED'
+  | 'WEAK_PASSWORD'
+  | 'EMAIL_TAKEN'
+  | 'UNAUTHORIZED'   // Missing, expired or revoked token
+  | 'INVALID_TOKEN'  // Verification link that's wrong, expired or already used
+  | 'INVALID_REQUEST'
+  | 'NETWORK'
+  | 'UNKNOWN';
+
+export class AuthError extends Error {
+  constructor(public code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export const AUTH_STATUS_BY_CODE: Record<AuthErrorCode, number> = {
+  INVALID_CREDENTIALS: 401,
+  ACCOUNT_LOCKED: 423,
+  WEAK_PASSWORD: 422,
+  EMAIL_TAKEN: 409,
+  UNAUTHORIZED: 401,
+  INVALID_TOKEN: 400,
+  INVALID_REQUEST: 400,
+  NETWORK: 502,
+  UNKNOWN: 500
+};
+
+const KNOWN_CODES = Object.keys(AUTH_STATUS_BY_CODE) as AuthErrorCode[];
+
+// Rebuild a typed error from the { code, error } body the server sends
+export const authErrorFromCode = (code: string | undefined, message: string): AuthError =>
+  new AuthError(KNOWN_CODES.includes(code as AuthErrorCode) ? code as AuthErrorCode : 'UNKNOWN', message);
@@ -0,0 +1,56 @@
+import { Confidence, QuestionAttempt, QuizHistoryItem, QuizQuestion } from '../types';
+
+// Confidence calibration: how often the user is right at each confidence level,
+// and which questions they were sure about but got wrong.
+
+export const CONFIDENCE_LEVELS: { id: Confidence; label: string; expected: number }[] = [
+  { id: 'GUESS', label: 'Guess', expected: 0.33 },
+  { id: 'UNSURE', label: 'Unsure', expected: 0.6 },
+  { id: 'SURE', label: 'Sure', expected: 0.9 }
+];
+
+const CONFIDENT_MISS_SCORE = 0.5; // Below this a "sure" answer counts as confidently wrong
+
+export const isConfidentlyWrong = (attempt: QuestionAttempt | null | undefined): boolean =>
+  !!attempt && attempt.confidence === 'SURE' && attempt.score < CONFIDENT_MISS_SCORE;
+
+export interface CalibrationPoint {
+  confidence: Confidence;
+  label: string;
+  count: number;
+  accuracy: number; // Mean credit at this level, 0..1
+  expected: number; // What a well-calibrated learner would score
+}
+
+export const buildCalibration = (attempts: (QuestionAttempt | null | undefined)[]): CalibrationPoint[] =>
+  CONFIDENCE_LEVELS.map(level => {
+    const rated = attempts.filter((a): a is QuestionAttempt => !!a && a.confidence === level.id);
+    return {
+      confidence: level.id,
+      label: level.label,
+      count: rated.length,
+      accuracy: rated.length ? rated.reduce((sum, a) => sum + a.score, 0) / rated.length : 0,
+      expected: level.expected
+    };
+  });
+
+export interface ConfidentMiss {
+  question: QuizQuestion;
+  topic: string;
+  attempt: QuestionAttempt;
+}
+
+// Newest first; a question missed with confidence in several sessions is listed once
+export const findConfidentMisses = (history: QuizHistoryItem[]): ConfidentMiss[] => {
+  const seen = new Set<string>();
+  const misses: ConfidentMiss[] = [];
+  history.forEach(item => {
+    item.attempts?.forEach((attempt, idx) => {
+      const question = item.questions?.[idx];
+      if (!question || !attempt || !isConfidentlyWrong(attempt) || seen.has(question.question)) return;
+      seen.add(question.question);
+      misses.push({ question, topic: item.topic, attempt });
+    });
+  });
+  return misses;
+};
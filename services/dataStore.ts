@@ -0,0 +1,470 @@
+import { QuizHistoryItem, SyncChange, UserProfile } from '../types';
+import { PasswordHash } from './passwordService';
+
+// Local database: profiles, quiz history, study decks, settings and changes
+// waiting to sync in IndexedDB.
+// A signed-in user's data is loaded into memory once, so reads stay synchronous;
+// writes land in memory straight away and are saved to IndexedDB in the background.
+// Other tabs are told about each save and reload that record, so none of them
+// writes back a stale copy.
+
+const DB_NAME = 'synapsy_data';
+const MAX_HISTORY_ITEMS = 500; // Oldest sessions drop off past this
+
+// Profiles saved on this device, keyed by id. Records from before the auth
+// server may still carry a password until they move over.
+export interface UserRecord extends UserProfile {
+  password?: string; // Plaintext, from before hashing
+  passwordHash?: PasswordHash;
+  failedLogins?: number;
+  lockedUntil?: number;
+}
+
+export type DeckKind = 'srs' | 'mistakes' | 'bank';
+
+type StoreName = 'users' | 'history' | 'decks' | 'settings' | 'outbox' | 'meta';
+const ALL_STORES: StoreName[] = ['users', 'history', 'decks', 'settings', 'outbox', 'meta'];
+const USER_STORES: StoreName[] = ['history', 'decks', 'settings', 'outbox'];
+
+interface HistoryRecord extends QuizHistoryItem {
+  userId: string;
+}
+
+interface DeckRecord {
+  userId: string;
+  kind: DeckKind;
+  data: unknown;
+}
+
+interface SettingRecord {
+  userId: string;
+  key: string;
+  value: unknown;
+}
+
+type OutboxRecord = SyncChange & { userId: string };
+
+// Sent to other tabs once a save has committed
+interface ChangeNotice {
+  userId: string;
+  store: 'history' | 'decks' | 'settings' | 'outbox';
+  key?: string; // Deck kind or setting key; history and the outbox reload whole
+}
+
+interface UserData {
+  history: QuizHistoryItem[]; // Newest first
+  decks: Partial<Record<DeckKind, unknown>>;
+  settings: Record<string, unknown>;
+  outbox: SyncChange[]; // Oldest first
+}
+
+// One step per schema version, applied in order from the version on disk.
+// Never change a step that has shipped; add the next one.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // 1: initial schema
+  db => {
+    db.createObjectStore('users', { keyPath: 'id' });
+    db.createObjectStore('history', { keyPath: ['userId', 'id'] }).createIndex('userId', 'userId');
+    db.createObjectStore('decks', { keyPath: ['userId', 'kind'] });
+    db.createObjectStore('settings', { keyPath: ['userId', 'key'] });
+    db.createObjectStore('meta', { keyPath: 'key' });
+  },
+  // 2: changes recorded while offline, until the sync server has them
+  db => {
+    db.createObjectStore('outbox', { keyPath: ['userId', 'id'] });
+  }
+];
+const DB_VERSION = MIGRATIONS.length;
+
+// Where everything lived before this database; imported once, then removed
+const LEGACY_USERS_KEY = 'gdg_app_users';
+const LEGACY_HISTORY_PREFIX = 'gdg_app_history_';
+const LEGACY_DECK_PREFIXES: Record<DeckKind, string> = {
+  srs: 'gdg_app_srs_',
+  mistakes: 'gdg_app_mistakes_',
+  bank: 'gdg_app_bank_'
+};
+const IMPORT_MARKER = 'localStorageImport';
+const DEVICE_ID_KEY = 'deviceId';
+
+export class StorageError extends Error {
+  constructor(message: string, public isQuotaExceeded: boolean = false) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.code === 22);
+
+const toStorageError = (e: unknown): StorageError => {
+  if (e instanceof StorageError) return e;
+  if (isQuotaError(e)) {
+    return new StorageError("Your device is out of storage space, so recent progress couldn't be saved. Free up some space and try again.", true);
+  }
+  return new StorageError("Couldn't save your progress on this device.");
+};
+
+const errorListeners = new Set<(error: StorageError) => void>();
+
+// Failed background saves are reported here rather than thrown at whoever made the change
+export const onStorageError = (listener: (error: StorageError) => void) => {
+  errorListeners.add(listener);
+  return () => { errorListeners.delete(listener); };
+};
+
+const report = (e: unknown) => {
+  const error = toStorageError(e);
+  console.error(error.message, e);
+  errorListeners.forEach(listener => listener(error));
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Resolves once everything queued in `work` has committed
+const runTransaction = (db: IDBDatabase, stores: StoreName[], work: (tx: IDBTransaction) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(stores, 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    work(tx);
+  });
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('IndexedDB is not available'));
+    return;
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = event => {
+    for (let version = event.oldVersion; version < DB_VERSION; version++) {
+      MIGRATIONS[version](request.result, request.transaction!);
+    }
+  };
+  request.onsuccess = () => {
+    const db = request.result;
+    // Another tab wants to upgrade the schema: step aside rather than block it
+    db.onversionchange = () => db.close();
+    resolve(db);
+  };
+  request.onerror = () => reject(request.error);
+});
+
+const parseLegacy = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch {
+    console.warn(`Skipping unreadable saved data under ${key}`);
+    return null;
+  }
+};
+
+// Copy everything the app kept in localStorage into the database, in one
+// transaction, and only clear the old keys once it has committed
+const importLocalStorage = async (db: IDBDatabase) => {
+  const marker = await promisify(db.transaction('meta').objectStore('meta').get(IMPORT_MARKER));
+  if (marker || typeof localStorage === 'undefined') return;
+
+  const imported: string[] = [];
+  await runTransaction(db, ALL_STORES, tx => {
+    const users = parseLegacy(LEGACY_USERS_KEY);
+    if (Array.isArray(users)) {
+      users.filter(u => u && typeof u.id === 'string').forEach(u => tx.objectStore('users').put(u));
+      imported.push(LEGACY_USERS_KEY);
+    }
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key) continue;
+      if (key.startsWith(LEGACY_HISTORY_PREFIX)) {
+        const userId = key.slice(LEGACY_HISTORY_PREFIX.length);
+        const history = parseLegacy(key);
+        if (!Array.isArray(history)) continue;
+        history.slice(0, MAX_HISTORY_ITEMS).forEach((item: QuizHistoryItem) => {
+          if (item?.id) tx.objectStore('history').put({ ...item, userId });
+        });
+        imported.push(key);
+        continue;
+      }
+      const kind = (Object.keys(LEGACY_DECK_PREFIXES) as DeckKind[]).find(k => key.startsWith(LEGACY_DECK_PREFIXES[k]));
+      if (kind) {
+        const data = parseLegacy(key);
+        if (data === null) continue;
+        tx.objectStore('decks').put({ userId: key.slice(LEGACY_DECK_PREFIXES[kind].length), kind, data });
+        imported.push(key);
+      }
+    }
+
+    tx.objectStore('meta').put({ key: IMPORT_MARKER, importedAt: Date.now(), keys: imported.length });
+  });
+
+  imported.forEach(key => localStorage.removeItem(key));
+};
+
+const newDeviceId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+
+// Kept with the data rather than in localStorage: if the data is wiped, this
+// browser starts over as a new device and doesn't undercount what it had synced
+const loadDeviceId = async (db: IDBDatabase): Promise<string> => {
+  const meta = db.transaction('meta', 'readwrite').objectStore('meta');
+  const existing = await promisify(meta.get(DEVICE_ID_KEY));
+  if (existing) return existing.value;
+  const id = newDeviceId();
+  await promisify(meta.put({ key: DEVICE_ID_KEY, value: id }));
+  return id;
+};
+
+let db: IDBDatabase | null = null;
+let deviceId = newDeviceId(); // Replaced by the saved one once the database opens
+let users: UserRecord[] = [];
+const userData = new Map<string, UserData>();
+let openPromise: Promise<void> | null = null;
+
+// Open the database, run migrations and the one-off import, and load the profiles.
+// Without IndexedDB (e.g. some private windows) everything still works, in memory only.
+export const openDataStore = (): Promise<void> => {
+  if (!openPromise) {
+    openPromise = (async () => {
+      try {
+        db = await openDb();
+        await importLocalStorage(db);
+        deviceId = await loadDeviceId(db);
+        users = await promisify(db.transaction('users').objectStore('users').getAll());
+      } catch (e) {
+        db = null;
+        report(e);
+      }
+    })();
+  }
+  return openPromise;
+};
+
+const emptyUserData = (): UserData => ({ history: [], decks: {}, settings: {}, outbox: [] });
+
+// Everything stored for one user, between [userId] and [userId, <anything>]
+const userRange = (userId: string) => IDBKeyRange.bound([userId], [userId, []]);
+
+const readHistory = async (tx: IDBTransaction, userId: string) => {
+  const records = await promisify(tx.objectStore('history').index('userId').getAll(userId)) as HistoryRecord[];
+  return records.map(({ userId: _, ...item }) => item).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+const readOutbox = async (tx: IDBTransaction, userId: string) => {
+  const records = await promisify(tx.objectStore('outbox').getAll(userRange(userId))) as OutboxRecord[];
+  return records.map(({ userId: _, ...change }) => change as SyncChange).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const loadUserData = async (userId: string) => {
+  await openDataStore();
+  if (!db) {
+    if (!userData.has(userId)) userData.set(userId, emptyUserData());
+    return;
+  }
+  try {
+    const tx = db.transaction(USER_STORES);
+    const [history, decks, settings, outbox] = await Promise.all([
+      readHistory(tx, userId),
+      promisify(tx.objectStore('decks').getAll(userRange(userId))) as Promise<DeckRecord[]>,
+      promisify(tx.objectStore('settings').getAll(userRange(userId))) as Promise<SettingRecord[]>,
+      readOutbox(tx, userId)
+    ]);
+    userData.set(userId, {
+      history,
+      decks: Object.fromEntries(decks.map(d => [d.kind, d.data])),
+      settings: Object.fromEntries(settings.map(s => [s.key, s.value])),
+      outbox
+    });
+  } catch (e) {
+    report(e);
+    if (!userData.has(userId)) userData.set(userId, emptyUserData());
+  }
+};
+
+const dataFor = (userId: string): UserData => {
+  let data = userData.get(userId);
+  if (!data) {
+    data = emptyUserData();
+    userData.set(userId, data);
+  }
+  return data;
+};
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(DB_NAME) : null;
+
+// Save in the background; memory already has the change
+const persist = (stores: StoreName[], work: (tx: IDBTransaction) => void, notice?: ChangeNotice) => {
+  if (!db) return;
+  runTransaction(db, stores, work)
+    .then(() => { if (notice) channel?.postMessage(notice); })
+    .catch(report);
+};
+
+// Another tab saved something for a user this tab has loaded: take its version
+const reloadRecord = async ({ userId, store, key }: ChangeNotice) => {
+  const data = userData.get(userId);
+  if (!db || !data) return;
+  try {
+    const tx = db.transaction(store);
+    switch (store) {
+      case 'history':
+        data.history = await readHistory(tx, userId);
+        break;
+      case 'outbox':
+        data.outbox = await readOutbox(tx, userId);
+        break;
+      case 'decks': {
+        const record = await promisify(tx.objectStore('decks').get([userId, key!])) as DeckRecord | undefined;
+        if (record) data.decks[key as DeckKind] = record.data;
+        else delete data.decks[key as DeckKind];
+        break;
+      }
+      case 'settings': {
+        const record = await promisify(tx.objectStore('settings').get([userId, key!])) as SettingRecord | undefined;
+        if (record) data.settings[key!] = record.value;
+        else delete data.settings[key!];
+        break;
+      }
+    }
+  } catch (e) {
+    report(e);
+  }
+};
+
+channel?.addEventListener('message', event => { reloadRecord(event.data); });
+
+export const getDeviceId = () => deviceId;
+
+// Profiles
+
+export const getUserRecords = (): UserRecord[] => users;
+
+export const saveUserRecord = (record: UserRecord) => {
+  users = [...users.filter(u => u.id !== record.id), record];
+  persist(['users'], tx => tx.objectStore('users').put(record));
+};
+
+// History
+
+export const getHistory = (userId: string): QuizHistoryItem[] => dataFor(userId).history;
+
+export const addHistoryItem = (userId: string, item: QuizHistoryItem) => {
+  const data = dataFor(userId);
+  const dropped = data.history.slice(MAX_HISTORY_ITEMS - 1);
+  data.history = [item, ...data.history.slice(0, MAX_HISTORY_ITEMS - 1)];
+  persist(['history'], tx => {
+    const store = tx.objectStore('history');
+    store.put({ ...item, userId });
+    dropped.forEach(old => store.delete([userId, old.id]));
+  }, { userId, store: 'history' });
+};
+
+// Entries from another device, slotted in by time; ones already here are skipped.
+// Returns how many were new.
+export const mergeHistory = (userId: string, items: QuizHistoryItem[]): number => {
+  const data = dataFor(userId);
+  const known = new Set(data.history.map(item => item.id));
+  const added: QuizHistoryItem[] = [];
+  items.forEach(item => {
+    if (known.has(item.id)) return;
+    known.add(item.id);
+    added.push(item);
+  });
+  if (added.length === 0) return 0;
+
+  const merged = [...added, ...data.history].sort((a, b) => b.timestamp - a.timestamp);
+  const dropped = merged.slice(MAX_HISTORY_ITEMS);
+  data.history = merged.slice(0, MAX_HISTORY_ITEMS);
+  persist(['history'], tx => {
+    const store = tx.objectStore('history');
+    added.forEach(item => store.put({ ...item, userId }));
+    dropped.forEach(old => store.delete([userId, old.id]));
+  }, { userId, store: 'history' });
+  return added.length;
+};
+
+// Decks: the spaced repetition deck, mistake notebook and question bank
+
+export const getDeck = <T>(userId: string, kind: DeckKind): T | undefined =>
+  dataFor(userId).decks[kind] as T | undefined;
+
+export const saveDeck = <T>(userId: string, kind: DeckKind, data: T) => {
+  dataFor(userId).decks[kind] = data;
+  persist(['decks'], tx => tx.objectStore('decks').put({ userId, kind, data }), { userId, store: 'decks', key: kind });
+};
+
+// Settings
+
+export const getSetting = <T>(userId: string, key: string): T | undefined =>
+  dataFor(userId).settings[key] as T | undefined;
+
+export const saveSetting = <T>(userId: string, key: string, value: T) => {
+  dataFor(userId).settings[key] = value;
+  persist(['settings'], tx => tx.objectStore('settings').put({ userId, key, value }), { userId, store: 'settings', key });
+};
+
+export const deleteSetting = (userId: string, key: string) => {
+  const settings = dataFor(userId).settings;
+  if (!(key in settings)) return;
+  delete settings[key];
+  persist(['settings'], tx => tx.objectStore('settings').delete([userId, key]), { userId, store: 'settings', key });
+};
+
+// Sync outbox
+
+export const getOutbox = (userId: string): SyncChange[] => dataFor(userId).outbox;
+
+export const queueChanges = (userId: string, changes: SyncChange[]) => {
+  const data = dataFor(userId);
+  data.outbox = [...data.outbox, ...changes];
+  persist(['outbox'], tx => changes.forEach(change => tx.objectStore('outbox').put({ ...change, userId })), { userId, store: 'outbox' });
+};
+
+// Once the server has confirmed them
+export const removeFromOutbox = (userId: string, ids: string[]) => {
+  const sent = new Set(ids);
+  const data = dataFor(userId);
+  data.outbox = data.outbox.filter(change => !sent.has(change.id));
+  persist(['outbox'], tx => ids.forEach(id => tx.objectStore('outbox').delete([userId, id])), { userId, store: 'outbox' });
+};
+
+// Whole accounts
+
+// Re-key everything when the id changes (the id is the email)
+export const moveUserData = async (fromId: string, toId: string) => {
+  const data = dataFor(fromId);
+  userData.set(toId, data);
+  userData.delete(fromId);
+  const record = users.find(u => u.id === fromId);
+  users = users.filter(u => u.id !== fromId && u.id !== toId);
+  if (record) users.push({ ...record, id: toId, email: toId });
+  if (!db) return;
+
+  await runTransaction(db, ['users', ...USER_STORES], tx => {
+    tx.objectStore('users').delete(fromId);
+    if (record) tx.objectStore('users').put({ ...record, id: toId, email: toId });
+    const history = tx.objectStore('history');
+    history.delete(userRange(fromId));
+    data.history.forEach(item => history.put({ ...item, userId: toId }));
+    tx.objectStore('decks').delete(userRange(fromId));
+    Object.entries(data.decks).forEach(([kind, deck]) => tx.objectStore('decks').put({ userId: toId, kind, data: deck }));
+    tx.objectStore('settings').delete(userRange(fromId));
+    Object.entries(data.settings).forEach(([key, value]) => tx.objectStore('settings').put({ userId: toId, key, value }));
+    tx.objectStore('outbox').delete(userRange(fromId));
+    data.outbox.forEach(change => tx.objectStore('outbox').put({ ...change, userId: toId }));
+  }).catch(e => { report(e); throw toStorageError(e); });
+};
+
+export const deleteUserData = async (userId: string) => {
+  userData.delete(userId);
+  users = users.filter(u => u.id !== userId);
+  if (!db) return;
+
+  await runTransaction(db, ['users', ...USER_STORES], tx => {
+    tx.objectStore('users').delete(userId);
+    USER_STORES.forEach(store => tx.objectStore(store).delete(userRange(userId)));
+  }).catch(e => { report(e); throw toStorageError(e); });
+};
@@ -0,0 +1,224 @@
+import { GoogleGenAI, Type, GenerateContentParameters, GenerateContentResponse, FinishReason } from "@google/genai";
+import { QuizQuestion } from "../types";
+import { AIProvider, StudyContent, DEFAULT_MODEL } from "./aiProvider";
+import { MalformedResponseError, SafetyBlockedError, toAIError } from "./aiErrors";
+import {
+  buildSummaryPrompt,
+  SUMMARY_SYSTEM_INSTRUCTION,
+  buildNotesPrompt,
+  buildExplanationPrompt,
+  buildGradingPrompt,
+  buildQuizPrompt,
+  buildQuizSystemInstruction
+} from "./prompts";
+
+interface GeminiProviderOptions {
+  apiKey?: string;
+  model?: string;
+}
+
+const quizResponseSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.INTEGER },
+      type: { 
+        type: Type.STRING, 
+        enum: ['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER', 'ORDERING', 'MATCHING', 'FLASHCARD', 'FILL_IN_THE_BLANK'] 
+      },
+      question: { type: Type.STRING },
+      options: { 
+        type: Type.ARRAY, 
+        items: { type: Type.STRING }
+      },
+      correctAnswer: { type: Type.STRING },
+      acceptedAnswers: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING }
+      },
+      orderingItems: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING }
+      },
+      matchingPairs: {
+          type: Type.ARRAY,
+          items: {
+              type: Type.OBJECT,
+              properties: {
+                  left: { type: Type.STRING },
+                  right: { type: Type.STRING }
+              }
+          }
+      },
+      explanation: { type: Type.STRING },
+      hint: { type: Type.STRING },
+      simpleExplanation: { type: Type.STRING },
+      searchQuery: { type: Type.STRING },
+      source: {
+          type: Type.OBJECT,
+          properties: {
+              fileName: { type: Type.STRING },
+              page: { type: Type.INTEGER },
+              excerpt: { type: Type.STRING }
+          },
+          required: ["excerpt"]
+      }
+    },
+    required: ["id", "type", "question", "options", "explanation", "hint", "simpleExplanation", "searchQuery", "source"],
+  }
+};
+
+// Turn our provider-neutral content into Gemini request parts
+const toParts = (content: StudyContent): any[] => {
+  const parts: any[] = [];
+
+  if (content.text.trim()) {
+    parts.push({ text: buildNotesPrompt(content.text) });
+  }
+
+  for (const file of content.files) {
+    // Name the file so citations can refer to it
+    parts.push({ text: `Attached file: "${file.name}"` });
+    parts.push({ inlineData: { data: file.data, mimeType: file.mimeType } });
+  }
+
+  return parts;
+};
+
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII
+];
+
+const parseJson = <T>(text: string | undefined): T => {
+  if (!text) {
+    throw new MalformedResponseError("No response from Gemini.");
+  }
+  try {
+    let jsonString = text.trim();
+    if (jsonString.startsWith('```')) {
+      jsonString = jsonString.replace(/^```(json)?\n?/, '').replace(/\n?```$/, '');
+    }
+    return JSON.parse(jsonString) as T;
+  } catch (e) {
+    console.error("Failed to parse Gemini response", e);
+    throw new MalformedResponseError("Gemini returned invalid JSON.");
+  }
+};
+
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_MODEL }: GeminiProviderOptions): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  // Every call goes through here so SDK failures and safety blocks become typed errors
+  const generate = async (params: GenerateContentParameters, signal?: AbortSignal): Promise<GenerateContentResponse> => {
+    let response: GenerateContentResponse;
+    try {
+      response = await ai.models.generateContent({
+        ...params,
+        config: { ...params.config, abortSignal: signal }
+      });
+    } catch (e) {
+      throw toAIError(e);
+    }
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new SafetyBlockedError(`Prompt blocked: ${blockReason}`);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (SAFETY_FINISH_REASONS.includes(finishReason)) {
+      throw new SafetyBlockedError(`Response blocked: ${finishReason}`);
+    }
+    return response;
+  };
+
+  return {
+    name: 'gemini',
+
+    describe: async () => `gemini/${model}`,
+
+    generateSummary: async ({ content, extraInstructions }, options) => {
+      const parts = toParts(content);
+      parts.push({ text: buildSummaryPrompt(extraInstructions) });
+
+      const response = await generate({
+        model,
+        contents: { parts: parts },
+        config: {
+          systemInstruction: SUMMARY_SYSTEM_INSTRUCTION,
+        }
+      }, options?.signal);
+
+      return response.text || "Could not generate summary.";
+    },
+
+    validateExplanation: async ({ conceptQuestion, correctConcept, userExplanation }, options) => {
+      const response = await generate({
+          model,
+          contents: { parts: [{ text: buildExplanationPrompt(conceptQuestion, correctConcept, userExplanation) }] },
+          config: {
+              responseMimeType: "application/json",
+              responseSchema: {
+                  type: Type.OBJECT,
+                  properties: {
+                      isCorrect: { type: Type.BOOLEAN },
+                      feedback: { type: Type.STRING }
+                  },
+                  required: ["isCorrect", "feedback"]
+              }
+          }
+      }, options?.signal);
+
+      if (!response.text) return { isCorrect: false, feedback: "Could not validate." };
+      try {
+          return JSON.parse(response.text);
+      } catch {
+          return { isCorrect: false, feedback: "Error parsing validation." };
+      }
+    },
+
+    gradeAnswer: async ({ question, correctAnswer, acceptedAnswers, userAnswer }, options) => {
+      const response = await generate({
+          model,
+          contents: { parts: [{ text: buildGradingPrompt(question, correctAnswer, acceptedAnswers, userAnswer) }] },
+          config: {
+              responseMimeType: "application/json",
+              responseSchema: {
+                  type: Type.OBJECT,
+                  properties: {
+                      score: { type: Type.NUMBER },
+                      rationale: { type: Type.STRING }
+                  },
+                  required: ["score", "rationale"]
+              }
+          }
+      }, options?.signal);
+
+      const result = parseJson<{ score: number; rationale: string }>(response.text);
+      if (typeof result.score !== 'number' || Number.isNaN(result.score)) {
+          throw new MalformedResponseError("Gemini returned a grade without a score.");
+      }
+      return { score: result.score, rationale: String(result.rationale || '') };
+    },
+
+    generateQuiz: async ({ content, mode, count, settings, extraInstructions }, options) => {
+      const parts = toParts(content);
+      parts.push({ text: buildQuizPrompt(mode, count, settings, extraInstructions) });
+
+      const response = await generate({
+        model,
+        contents: { parts: parts },
+        config: {
+          systemInstruction: buildQuizSystemInstruction(settings),
+          responseMimeType: "application/json",
+          responseSchema: quizResponseSchema
+        }
+      }, options?.signal);
+
+      return parseJson<QuizQuestion[]>(response.text);
+    }
+  };
+};
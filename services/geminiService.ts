@@ -1,8 +1,56 @@
+import { QuizQuestion, QuizMode, QuizSettings } from "../types";
+import { AIProvider, StudyContent, InlineFile, QuizRequest } from "./aiProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { validateQuestions, buildRepairInstructions, getAllowedTypes } from "./quizValidator";
+import { containsQuote, isNearDuplicate } from "./textMatching";
+import { AbortedError, MalformedResponseError, isAbortError, withRetry } from "./aiErrors";
+import { StudySection, buildSections, planCoverage } from "./sectioning";
+import { buildSectionSummaryInstructions, buildAvoidInstructions, MERGE_SUMMARIES_INSTRUCTIONS } from "./prompts";
+import { createMockProvider } from "./mockProvider";
+import { authClient } from "./authClient";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { QuizQuestion, QuizMode, QuizSettings, AIPersonality } from "../types";
+let provider: AIProvider | null = null;
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The browser never talks to Gemini directly: calls go through our backend,
+// unless AI_PROVIDER=mock asks for the offline fixtures instead.
+export const getProvider = (): AIProvider => {
+  if (!provider) {
+    provider = process.env.AI_PROVIDER === 'mock'
+      ? createMockProvider()
+      : createProxyProvider({ getAccessToken: authClient.getAccessToken });
+  }
+  return provider;
+};
+
+const DESCRIBE_TIMEOUT_MS = 3000;
+const LAST_PROVIDER_KEY = 'gdg_app_ai_provider';
+
+// Identifies whoever answers generation calls, so cached results from another model
+// aren't reused. Offline or on a slow server, the last answer seen stands in, so a
+// cached quiz can still be served without waiting.
+export const describeProvider = async (signal?: AbortSignal): Promise<string> => {
+  if (signal?.aborted) throw new AbortedError();
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(onAbort, DESCRIBE_TIMEOUT_MS);
+  try {
+    const description = await getProvider().describe({ signal: controller.signal });
+    localStorage.setItem(LAST_PROVIDER_KEY, description);
+    return description;
+  } catch {
+    if (signal?.aborted) throw new AbortedError();
+    return localStorage.getItem(LAST_PROVIDER_KEY) || getProvider().name;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Swap the active provider at runtime (pass null to re-read the config)
+export const setProvider = (next: AIProvider | null) => {
+  provider = next;
+};
 
 // Helper to determine mime type if missing
 const getMimeType = (file: File) => {
@@ -38,91 +86,192 @@ export const fileToGenerativePart = async (file: File): Promise<{ inlineData: {
   });
 };
 
+const toStudyContent = async (textNotes: string, files: File[], signal?: AbortSignal): Promise<StudyContent> => {
+  const inlineFiles: InlineFile[] = [];
+  for (const file of files) {
+    if (signal?.aborted) throw new AbortedError();
+    const { inlineData } = await fileToGenerativePart(file);
+    inlineFiles.push({ name: file.name, ...inlineData });
+  }
+  return { text: textNotes, files: inlineFiles };
+};
+
+// All calls below throw AIError subclasses (see aiErrors.ts) and retry transient failures
+
+// Summaries are map-reduced: one per section, then a merge pass
 export const generateSummary = async (
   textNotes: string,
-  files: File[]
+  files: File[],
+  signal?: AbortSignal
 ): Promise<string> => {
-  const model = "gemini-2.5-flash";
-  const parts: any[] = [];
+  const content = await toStudyContent(textNotes, files, signal);
+  const ai = getProvider();
+  const sections = await buildSections(content);
 
-  if (textNotes.trim()) {
-    parts.push({ text: `Here are my study notes/topic: \n\n${textNotes}` });
+  if (sections.length === 1) {
+    return withRetry(() => ai.generateSummary({ content }, { signal }), { signal });
   }
 
-  for (const file of files) {
-    const filePart = await fileToGenerativePart(file);
-    parts.push(filePart);
-  }
-
-  const prompt = `
-    Analyze the provided content (text and files) and create a comprehensive study summary.
-    
-    Structure the summary as follows:
-    1. A brief 1-sentence overview of the main topic.
-    2. Key Concepts & Definitions (bullet points).
-    3. Important Details (bullet points, grouped by sub-topic if necessary).
-    4. Key Takeaways.
-
-    Use clear, concise language. 
-    Format using standard text. 
-    Use "•" for bullet points.
-    Use CAPS for section headers (e.g., "KEY CONCEPTS").
-    Do not use markdown symbols like ** or ##.
-    Ensure the output is clean and easy to read.
-  `;
-  
-  parts.push({ text: prompt });
-
-  const response = await ai.models.generateContent({
-    model: model,
-    contents: { parts: parts },
-    config: {
-      systemInstruction: "You are an expert tutor. Create clear, structured study summaries.",
-    }
-  });
+  const partials: string[] = new Array(sections.length);
+  await runWithConcurrency(sections.map(section => async () => {
+    partials[section.index] = await withRetry(() => ai.generateSummary({
+      content: section.content,
+      extraInstructions: buildSectionSummaryInstructions(section.label, section.instructions)
+    }, { signal }), { signal });
+  }), MAX_PARALLEL_BATCHES);
 
-  return response.text || "Could not generate summary.";
+  const merged = sections.map(s => `SECTION: ${s.label}\n${partials[s.index]}`).join('\n\n');
+  return withRetry(() => ai.generateSummary({
+    content: { text: merged, files: [] },
+    extraInstructions: MERGE_SUMMARIES_INSTRUCTIONS
+  }, { signal }), { signal });
 };
 
 // Validate Explain-It-Back
 export const validateExplanation = async (
     conceptQuestion: string,
     correctConcept: string,
-    userExplanation: string
+    userExplanation: string,
+    signal?: AbortSignal
 ): Promise<{ isCorrect: boolean; feedback: string }> => {
-    const model = "gemini-2.5-flash";
-    const prompt = `
-      I asked a student: "${conceptQuestion}".
-      The correct key concept/answer is: "${correctConcept}".
-      The student explained: "${userExplanation}".
-
-      Evaluate if the student understands the concept.
-      1. isCorrect: true if they grasped the core meaning, even if wording is different. false if they are wrong or missed the point completely.
-      2. feedback: A short, 1-sentence supportive feedback. If wrong, gently correct them.
-    `;
-    
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: { parts: [{ text: prompt }] },
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    isCorrect: { type: Type.BOOLEAN },
-                    feedback: { type: Type.STRING }
-                },
-                required: ["isCorrect", "feedback"]
-            }
-        }
-    });
-
-    if (!response.text) return { isCorrect: false, feedback: "Could not validate." };
+    return withRetry(
+        () => getProvider().validateExplanation({ conceptQuestion, correctConcept, userExplanation }, { signal }),
+        { signal, retries: 1 }
+    );
+};
+
+// Fallback grader for typed answers the local checks in grading.ts can't settle
+export const gradeAnswerWithAI = async (
+    question: QuizQuestion,
+    userAnswer: string,
+    signal?: AbortSignal
+): Promise<{ score: number; rationale: string }> => {
+    return withRetry(
+        () => getProvider().gradeAnswer({
+            question: question.question,
+            correctAnswer: question.correctAnswer,
+            acceptedAnswers: question.acceptedAnswers || [],
+            userAnswer
+        }, { signal }),
+        { signal, retries: 1 }
+    );
+};
+
+export interface GeneratedQuiz {
+  questions: QuizQuestion[];
+  repairedCount: number;     // Fixed up automatically (e.g. answer mapped onto an option)
+  regeneratedCount: number;  // Rejected, then replaced by a follow-up request
+  failedCount: number;       // Rejected or lost with a failed batch, and never replaced
+  duplicateCount: number;    // Dropped for repeating an earlier question
+}
+
+export interface GenerateQuizOptions {
+  signal?: AbortSignal;
+  // Called as each batch lands: the new questions, and how many are still on their way
+  onProgress?: (questions: QuizQuestion[], pending: number) => void;
+  // Already asked on this material, most recent first; near-copies of any are
+  // dropped, and the most recent are listed in the prompt
+  avoidQuestions?: string[];
+  // Generate from this section only (see StudySection.index), e.g. the one the user is on
+  sectionIndex?: number;
+}
+
+// Small first batch so the quiz can start quickly, then bigger ones in parallel
+const FIRST_BATCH_SIZE = 3;
+const BATCH_SIZE = 5;
+const MAX_PARALLEL_BATCHES = 3;
+const MAX_AVOID_IN_PROMPT = 25; // More than this bloats the prompt for little gain
+
+interface QuizBatch {
+  section: StudySection;
+  size: number;
+  part: number;  // Which slice of the section this batch covers, when a section needs several
+  parts: number;
+}
+
+// Spread the questions over the sections, then cut each section's share into batches
+const planBatches = (sections: StudySection[], count: number): QuizBatch[] => {
+  const allocation = planCoverage(sections, count);
+  const batches: QuizBatch[] = [];
+
+  sections.forEach((section, i) => {
+    const sizes: number[] = [];
+    let left = allocation[i];
+    if (left > 0 && batches.length === 0) {
+      sizes.push(Math.min(FIRST_BATCH_SIZE, left));
+      left -= sizes[0];
+    }
+    for (; left > 0; left -= BATCH_SIZE) {
+      sizes.push(Math.min(BATCH_SIZE, left));
+    }
+    sizes.forEach((size, part) => batches.push({ section, size, part, parts: sizes.length }));
+  });
+
+  return batches;
+};
+
+const buildBatchInstructions = ({ section, part, parts }: QuizBatch) => `
+    ${section.instructions}
+    ${parts > 1 ? `Several batches are generated in parallel from this content. To avoid duplicates, focus on part ${part + 1} of ${parts} of it (split it into ${parts} roughly equal parts in reading order).` : ''}
+  `;
+
+// Run tasks with at most `limit` in flight, in order of submission
+const runWithConcurrency = async (tasks: (() => Promise<void>)[], limit: number) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      await task();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+};
+
+// Check citations against the section they came from: quotes from typed notes
+// can be verified, and a quote from a single attached file gets its name filled in
+const attachSource = (question: QuizQuestion, section: StudySection): QuizQuestion => {
+  if (!question.source) return question;
+  const { text, files } = section.content;
+  const verified = !!text && containsQuote(text, question.source.excerpt);
+  const fileName = question.source.fileName || (!verified && files.length === 1 ? files[0].name : undefined);
+  return { ...question, source: { ...question.source, fileName, verified } };
+};
+
+// One generation request, validated, with one targeted follow-up for whatever couldn't be repaired
+const generateValidatedBatch = async (ai: AIProvider, request: QuizRequest, signal?: AbortSignal) => {
+  const allowedTypes = getAllowedTypes(request.mode, request.settings);
+  const first = validateQuestions(
+    await withRetry(() => ai.generateQuiz(request, { signal }), { signal }),
+    1,
+    allowedTypes
+  );
+  const questions = first.valid;
+  let repairedCount = first.repairedCount;
+  let regeneratedCount = 0;
+
+  if (first.rejected.length > 0) {
+    console.warn("Rejected generated questions", first.rejected);
     try {
-        return JSON.parse(response.text);
-    } catch {
-        return { isCorrect: false, feedback: "Error parsing validation." };
+      const retry = validateQuestions(
+        await withRetry(() => ai.generateQuiz({
+          ...request,
+          count: first.rejected.length,
+          extraInstructions: buildRepairInstructions(first.rejected)
+        }, { signal }), { signal }),
+        1,
+        allowedTypes
+      );
+      const replacements = retry.valid.slice(0, first.rejected.length);
+      questions.push(...replacements);
+      repairedCount += retry.repairedCount;
+      regeneratedCount = replacements.length;
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.error("Follow-up generation failed", e);
     }
+  }
+
+  return { questions, repairedCount, regeneratedCount };
 };
 
 export const generateQuizFromContent = async (
@@ -130,156 +279,68 @@ export const generateQuizFromContent = async (
   files: File[],
   mode: QuizMode = 'MIXED',
   count: number = 5,
-  settings?: QuizSettings
-): Promise<QuizQuestion[]> => {
-  const model = "gemini-2.5-flash"; 
+  settings?: QuizSettings,
+  { signal, onProgress, avoidQuestions = [], sectionIndex }: GenerateQuizOptions = {}
+): Promise<GeneratedQuiz> => {
+  const content = await toStudyContent(textNotes, files, signal);
+  const ai = getProvider();
+  const sections = await buildSections(content);
+  // Each section carries only its own text and pages, so nothing else is sent
+  const chosen = sections.filter(section => section.index === sectionIndex);
+  const batches = planBatches(chosen.length > 0 ? chosen : sections, count);
 
-  const parts: any[] = [];
+  const result: GeneratedQuiz = { questions: [], repairedCount: 0, regeneratedCount: 0, failedCount: 0, duplicateCount: 0 };
+  let pending = count;
+  let firstError: unknown = null;
 
-  if (textNotes.trim()) {
-    parts.push({ text: `Here are my study notes/topic: \n\n${textNotes}` });
-  }
-
-  for (const file of files) {
-    const filePart = await fileToGenerativePart(file);
-    parts.push(filePart);
-  }
-
-  let typeInstruction = "Mix multiple choice, true/false, and short answer questions.";
-  if (mode === 'MULTIPLE_CHOICE') typeInstruction = "Generate only Multiple Choice questions.";
-  else if (mode === 'TRUE_FALSE') typeInstruction = "Generate only True/False questions.";
-  else if (mode === 'SHORT_ANSWER') typeInstruction = "Generate only Short Answer questions.";
-  else if (mode === 'FLASHCARD') typeInstruction = "Generate only FLASHCARD items. Question is the Front, CorrectAnswer is the Back.";
-  else if (mode === 'FILL_IN_THE_BLANK') typeInstruction = "Generate only FILL_IN_THE_BLANK questions.";
-  else if (mode === 'CONCEPTUAL') typeInstruction = "Generate only ORDERING (Ranking/Sequence) and MATCHING (Concept Mapping) questions to test deep understanding.";
-  else if (mode === 'BOSS_BATTLE') typeInstruction = "Generate HIGH STAKES questions. Mostly Multiple Choice and Short Answer, but make them challenging scenarios.";
-  else if (mode === 'MIXED' && settings?.allowedTypes) {
-    const types = settings.allowedTypes.map(t => t.replace('_', ' ')).join(', ');
-    typeInstruction = `Generate a mix of only these question types: ${types}.`;
-  }
+  await runWithConcurrency(batches.map((plan, index) => async () => {
+    const { section, size } = plan;
+    try {
+      const batch = await generateValidatedBatch(ai, {
+        content: section.content,
+        mode,
+        count: size,
+        settings,
+        extraInstructions: buildBatchInstructions(plan) + buildAvoidInstructions(avoidQuestions.slice(0, MAX_AVOID_IN_PROMPT))
+      }, signal);
 
-  let difficultyInstruction = "";
-  if (settings?.difficulty) {
-    const diff = settings.difficulty;
-    if (diff === 'EASY') difficultyInstruction = "Make the questions EASY and straightforward, testing basic recall.";
-    if (diff === 'MEDIUM') difficultyInstruction = "Make the questions of MEDIUM difficulty, requiring understanding of concepts.";
-    if (diff === 'HARD') difficultyInstruction = "Make the questions HARD and complex, requiring analysis and critical thinking. Use scenarios where possible.";
-  }
+      // The prompt asks for new questions, but parallel batches and earlier sessions can still overlap
+      const asked = [...avoidQuestions, ...result.questions.map(q => q.question)];
+      const unique = batch.questions.filter((q, i) =>
+        !asked.some(text => isNearDuplicate(text, q.question)) &&
+        !batch.questions.slice(0, i).some(earlier => isNearDuplicate(earlier.question, q.question))
+      );
+      const duplicates = batch.questions.length - unique.length;
 
-  // Persona Logic
-  let personaInstruction = "You are an expert tutor.";
-  let toneInstruction = "Provide clear, concise explanations.";
-  
-  if (settings?.personality === AIPersonality.COACH) {
-      personaInstruction = "You are a high-energy, tough-love sports coach for the brain. 'DROP AND GIVE ME 20 FACTS!' style.";
-      toneInstruction = "Use uppercase for emphasis. Be motivational but intense. Call the user 'Cadet' or 'Rookie'.";
-  } else if (settings?.personality === AIPersonality.BUDDY) {
-      personaInstruction = "You are a chill, supportive study buddy who uses slang (like 'no cap', 'bet', 'lit').";
-      toneInstruction = "Keep it casual. Use emojis. Act like a peer.";
-  } else if (settings?.personality === AIPersonality.SOCRATIC) {
-      personaInstruction = "You are a Socratic professor. You rarely give direct answers, preferring to ask guiding questions.";
-      toneInstruction = "In the 'explanation' field, do NOT just give the answer. Instead, explain the logic path so the user discovers it.";
-  }
-
-  // System prompt
-  const prompt = `
-    Create a study quiz based on the provided content.
-    The content may include text notes and attached files (images or PDFs).
-    Analyze all attached documents thoroughly.
-    
-    Generate exactly ${count} questions.
-    ${typeInstruction}
-    ${difficultyInstruction}
-    ${toneInstruction}
-    
-    IMPORTANT RULES:
-    1. Questions must be educational and test understanding of the specific provided content.
-    2. For Multiple Choice, provide 4 options.
-       CRITICAL: The 'correctAnswer' field MUST be the exact text of the correct option string.
-    3. For Short Answer, options array must be empty.
-    4. 'hint' should be a progressive clue.
-    5. 'simpleExplanation' should explain the concept like I'm 5 years old (ELI5), using a fun analogy.
-    6. 'searchQuery' should be a specific string optimized for YouTube/Google Search.
-    
-    FOR "ORDERING" TYPE:
-    - Provide a list of 3-5 items in 'orderingItems' that represent a sequence, hierarchy, or process step-by-step.
-    
-    FOR "MATCHING" TYPE:
-    - Provide exactly 4 pairs in 'matchingPairs'. 
-
-    FOR "FLASHCARD" TYPE:
-    - 'question' is the Front of the card.
-    - 'correctAnswer' is the Back of the card.
-
-    FOR "FILL_IN_THE_BLANK" TYPE:
-    - 'question' must be a sentence with a missing part represented by exactly 6 underscores: "______".
-    - 'correctAnswer' is the missing word or short phrase.
-    
-    Output valid JSON only, no markdown.
-  `;
-  
-  parts.push({ text: prompt });
-
-  const response = await ai.models.generateContent({
-    model: model,
-    contents: { parts: parts },
-    config: {
-      systemInstruction: personaInstruction + " Output strictly valid JSON arrays of quiz objects.",
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.INTEGER },
-            type: { 
-              type: Type.STRING, 
-              enum: ['MULTIPLE_CHOICE', 'TRUE_FALSE', 'SHORT_ANSWER', 'ORDERING', 'MATCHING', 'FLASHCARD', 'FILL_IN_THE_BLANK'] 
-            },
-            question: { type: Type.STRING },
-            options: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING }
-            },
-            correctAnswer: { type: Type.STRING },
-            orderingItems: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING }
-            },
-            matchingPairs: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        left: { type: Type.STRING },
-                        right: { type: Type.STRING }
-                    }
-                }
-            },
-            explanation: { type: Type.STRING },
-            hint: { type: Type.STRING },
-            simpleExplanation: { type: Type.STRING },
-            searchQuery: { type: Type.STRING }
-          },
-          required: ["id", "type", "question", "options", "explanation", "hint", "simpleExplanation", "searchQuery"],
-        }
-      }
+      // Ids are handed out in arrival order so they stay unique across batches
+      const questions = unique.slice(0, size).map((q, i) => ({
+        ...attachSource(q, section),
+        id: result.questions.length + i + 1,
+        section: { index: section.index, label: section.label }
+      }));
+      result.questions.push(...questions);
+      result.repairedCount += batch.repairedCount;
+      result.regeneratedCount += batch.regeneratedCount;
+      // Only count a duplicate as lost if nothing took its place
+      const missing = size - questions.length;
+      const lostToDuplicates = Math.min(duplicates, missing);
+      result.duplicateCount += lostToDuplicates;
+      result.failedCount += missing - lostToDuplicates;
+      pending -= size;
+      onProgress?.(questions, pending);
+    } catch (e) {
+      if (isAbortError(e) || signal?.aborted) throw e;
+      console.error(`Quiz batch ${index + 1} failed`, e);
+      firstError = firstError || e;
+      result.failedCount += size;
+      pending -= size;
+      onProgress?.([], pending);
     }
-  });
+  }), MAX_PARALLEL_BATCHES);
 
-  if (!response.text) {
-    throw new Error("No response from Gemini.");
+  if (result.questions.length === 0) {
+    throw firstError || new MalformedResponseError("None of the generated questions were usable.");
   }
 
-  try {
-    let jsonString = response.text.trim();
-    if (jsonString.startsWith('```')) {
-      jsonString = jsonString.replace(/^```(json)?\n?/, '').replace(/\n?```$/, '');
-    }
-    const data = JSON.parse(jsonString);
-    return data as QuizQuestion[];
-  } catch (e) {
-    console.error("Failed to parse Gemini response", e);
-    throw new Error("Failed to generate quiz. Please try again.");
-  }
+  return result;
 };
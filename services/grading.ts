@@ -0,0 +1,351 @@
+import { QuizQuestion, QuestionType } from "../types";
+import { tokenize } from "./textMatching";
+import { gradeAnswerWithAI } from "./geminiService";
+import { isAbortError } from "./aiErrors";
+
+// Grades typed answers (short answer, fill in the blank) in layers, cheapest first:
+// exact and normalized text, numbers with units, the question's accepted
+// alternatives, and finally an optional AI grader for anything still unclear.
+// Ordering and matching answers get per-item partial credit.
+
+export type GradeMethod = 'exact' | 'normalized' | 'typo' | 'numeric' | 'alternative' | 'partial' | 'ai' | 'none';
+
+export interface AnswerGrade {
+  score: number;      // 0..1, fractional for partial credit
+  method: GradeMethod;
+  rationale?: string; // Shown under the answer when credit is partial or the AI decided
+  misplaced?: string[]; // Ordering only: the items to move to fix the sequence
+}
+
+// A local grade is either certain (full credit, a wrong number, a negated answer)
+// or a best guess that the AI grader may overrule
+interface LocalGrade extends AnswerGrade {
+  confident: boolean;
+}
+
+const NUMERIC_TOLERANCE = 0.01; // Relative
+const MISSING_UNIT_CREDIT = 0.5;
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'neither', 'nor', 'without',
+  'isnt', 'arent', 'wasnt', 'werent', 'doesnt', 'dont', 'didnt', 'cannot', 'cant', 'wont'
+]);
+// Words that carry no meaning for keyword overlap
+const STOPWORDS = new Set([
+  ...ARTICLES, 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'and', 'or', 'is', 'are', 'was', 'were',
+  'it', 'its', 'they', 'this', 'that', 'these', 'those', 'with', 'from', 'as', 'be', 'called'
+]);
+
+export const normalizeAnswer = (text: string): string =>
+  text
+    .normalize('NFKD').replace(/[\u0300-\u036f]/g, '') // Strip accents
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^\w\s.]|(?<!\d)\.|\.(?!\d)/g, ' ') // Keep decimal points only
+    .split(/\s+/)
+    .filter(word => word && !ARTICLES.has(word))
+    .join(' ');
+
+// Prefixes that flip or narrow a term's meaning: a word that trades one for another
+// ("hypotonic" for "hypertonic") is a different answer, not a typo
+const CONTRASTING_PREFIXES = [
+  'hyper', 'hypo', 'ana', 'cata', 'endo', 'exo', 'ecto', 'intra', 'inter', 'extra', 'homo', 'hetero',
+  'mono', 'poly', 'micro', 'macro', 'pre', 'post', 'sub', 'super', 'uni', 'multi', 'ab', 'ad', 'anti', 'pro'
+].sort((a, b) => b.length - a.length);
+
+const hasNegation = (text: string) => normalizeAnswer(text).split(' ').some(word => NEGATIONS.has(word));
+
+const contentWords = (text: string) => tokenize(normalizeAnswer(text)).filter(word => !STOPWORDS.has(word));
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const prefixOf = (word: string) => CONTRASTING_PREFIXES.find(prefix => word.startsWith(prefix) && word.length > prefix.length + 2);
+
+// A slip of a letter or two within one word, leaving its first letter and prefix alone
+const isTypoOf = (given: string, target: string) => {
+  if (given === target) return true;
+  const allowed = target.length >= 9 ? 2 : target.length >= 5 ? 1 : 0;
+  return allowed > 0 && !/\d/.test(target) && given[0] === target[0] &&
+    prefixOf(given) === prefixOf(target) && editDistance(given, target) <= allowed;
+};
+
+// --- Numbers and units ---
+
+interface UnitDef {
+  dimension: string;
+  factor: number;  // To the dimension's base unit
+  offset?: number; // Added after scaling (temperatures)
+}
+
+const UNITS: Record<string, UnitDef> = {};
+const defineUnits = (dimension: string, factor: number, names: string[], offset?: number) =>
+  names.forEach(name => { UNITS[name] = { dimension, factor, offset }; });
+
+defineUnits('length', 1, ['m', 'meter', 'meters', 'metre', 'metres']);
+defineUnits('length', 1000, ['km', 'kilometer', 'kilometers', 'kilometre', 'kilometres']);
+defineUnits('length', 0.01, ['cm', 'centimeter', 'centimeters', 'centimetre', 'centimetres']);
+defineUnits('length', 0.001, ['mm', 'millimeter', 'millimeters', 'millimetre', 'millimetres']);
+defineUnits('length', 1e-6, ['µm', 'um', 'micrometer', 'micrometers', 'micron', 'microns']);
+defineUnits('length', 1e-9, ['nm', 'nanometer', 'nanometers']);
+defineUnits('mass', 1, ['kg', 'kilogram', 'kilograms']);
+defineUnits('mass', 0.001, ['g', 'gram', 'grams']);
+defineUnits('mass', 1e-6, ['mg', 'milligram', 'milligrams']);
+defineUnits('time', 1, ['s', 'sec', 'secs', 'second', 'seconds']);
+defineUnits('time', 0.001, ['ms', 'millisecond', 'milliseconds']);
+defineUnits('time', 60, ['min', 'mins', 'minute', 'minutes']);
+defineUnits('time', 3600, ['h', 'hr', 'hrs', 'hour', 'hours']);
+defineUnits('time', 86400, ['d', 'day', 'days']);
+defineUnits('volume', 1, ['l', 'liter', 'liters', 'litre', 'litres']);
+defineUnits('volume', 0.001, ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres']);
+defineUnits('temperature', 1, ['k', 'kelvin']);
+defineUnits('temperature', 1, ['°c', 'degc', 'celsius', 'degrees celsius'], 273.15);
+defineUnits('temperature', 5 / 9, ['°f', 'degf', 'fahrenheit', 'degrees fahrenheit'], 459.67 * 5 / 9);
+defineUnits('energy', 1, ['j', 'joule', 'joules']);
+defineUnits('energy', 1000, ['kj', 'kilojoule', 'kilojoules']);
+defineUnits('energy', 4.184, ['cal', 'calorie', 'calories']);
+defineUnits('energy', 4184, ['kcal', 'kilocalorie', 'kilocalories']);
+defineUnits('speed', 1, ['m/s', 'mps']);
+defineUnits('speed', 1 / 3.6, ['km/h', 'kmh', 'kph']);
+defineUnits('pressure', 1, ['pa', 'pascal', 'pascals']);
+defineUnits('pressure', 1000, ['kpa']);
+defineUnits('pressure', 101325, ['atm', 'atmosphere', 'atmospheres']);
+defineUnits('ratio', 0.01, ['%', 'percent', 'per cent']);
+
+interface Quantity {
+  value: number;
+  unit: string; // As written (lowercased), '' when absent
+}
+
+const QUANTITY_PATTERN = /^(?:about|approx\.?|approximately|around|~|≈)?\s*([-+−]?(?:\d+(?:[.,]\d+)*|\.\d+)(?:e[-+]?\d+)?)\s*(?:(?:x|×|\*)\s*10\s*\^\s*([-+−]?\d+))?\s*(.*)$/i;
+
+const parseNumber = (raw: string): number => {
+  let s = raw.replace('−', '-');
+  if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(s)) s = s.replace(/,/g, ''); // 1,000,000
+  else s = s.replace(',', '.');                                           // 3,5 (decimal comma)
+  return Number(s);
+};
+
+export const parseQuantity = (text: string): Quantity | null => {
+  const match = text.trim().toLowerCase().replace(/\.$/, '').match(QUANTITY_PATTERN);
+  if (!match) return null;
+  let value = parseNumber(match[1]);
+  if (match[2]) value *= 10 ** Number(match[2].replace('−', '-'));
+  const unit = match[3].trim().replace(/^degrees?\s+c$/, 'celsius').replace(/^degrees?\s+f$/, 'fahrenheit');
+  // Anything longer than a unit means this is a sentence that happens to start with a number
+  if (!Number.isFinite(value) || unit.split(/\s+/).length > 2 || unit.length > 20) return null;
+  return { value, unit };
+};
+
+const toBase = ({ value, unit }: Quantity) => {
+  const def = UNITS[unit];
+  return def ? { value: value * def.factor + (def.offset || 0), dimension: def.dimension } : null;
+};
+
+const closeEnough = (a: number, b: number) =>
+  Math.abs(a - b) <= Math.max(Math.abs(b) * NUMERIC_TOLERANCE, 1e-9);
+
+// null when either side isn't a number, so the text layers take over
+const gradeNumeric = (answer: string, expected: string): LocalGrade | null => {
+  const given = parseQuantity(answer);
+  const target = parseQuantity(expected);
+  if (!given || !target) return null;
+
+  if (!given.unit || !target.unit || given.unit === target.unit) {
+    if (!closeEnough(given.value, target.value)) {
+      return { score: 0, method: 'numeric', confident: true, rationale: `Expected ${expected}.` };
+    }
+    if (!given.unit && target.unit) {
+      return {
+        score: MISSING_UNIT_CREDIT,
+        method: 'numeric',
+        confident: true,
+        rationale: `Right number, but the unit is missing (${target.unit}).`
+      };
+    }
+    return { score: 1, method: 'numeric', confident: true };
+  }
+
+  const givenBase = toBase(given);
+  const targetBase = toBase(target);
+  if (!givenBase || !targetBase) return null; // Unknown unit: let the text layers judge it
+  if (givenBase.dimension !== targetBase.dimension) {
+    return { score: 0, method: 'numeric', confident: true, rationale: `Wrong kind of unit: expected ${target.unit}.` };
+  }
+  return closeEnough(givenBase.value, targetBase.value)
+    ? { score: 1, method: 'numeric', confident: true }
+    : { score: 0, method: 'numeric', confident: true, rationale: `Expected ${expected}.` };
+};
+
+// --- Text ---
+
+const gradeText = (answer: string, expected: string): LocalGrade => {
+  if (answer.trim() === expected.trim()) return { score: 1, method: 'exact', confident: true };
+
+  const numeric = gradeNumeric(answer, expected);
+  if (numeric) return numeric;
+
+  const givenWords = contentWords(answer);
+  const targetWords = contentWords(expected);
+
+  // The same words with a "not" on one side only say the opposite; other wordings
+  // ("without oxygen" for "anaerobic") can still be right, so those go on to the AI
+  const negationDiffers = hasNegation(answer) !== hasNegation(expected);
+  if (negationDiffers) {
+    const withoutNegations = (words: string[]) => words.filter(word => !NEGATIONS.has(word));
+    const givenTerms = withoutNegations(givenWords);
+    const targetTerms = withoutNegations(targetWords);
+    if (targetTerms.length > 0 && targetTerms.every(word => givenTerms.includes(word))) {
+      return { score: 0, method: 'none', confident: true, rationale: "Your answer says the opposite of the expected one." };
+    }
+  }
+
+  const given = normalizeAnswer(answer);
+  const target = normalizeAnswer(expected);
+  if (!given || !target) return { score: 0, method: 'none', confident: true };
+  if (given === target) return { score: 1, method: 'normalized', confident: true };
+
+  // One or two slipped letters per word. Still a guess: a one-letter change can be
+  // a different term, so the AI gets the final say when it's on
+  const givenParts = given.split(' ');
+  const targetParts = target.split(' ');
+  if (givenParts.length === targetParts.length && givenParts.every((word, i) => isTypoOf(word, targetParts[i]))) {
+    return { score: 1, method: 'typo', confident: false, rationale: "Accepted, but check your spelling." };
+  }
+
+  // Every key word of the answer is there, with little else around it ("it's chlorophyll")
+  if (targetWords.length === 0) return { score: 0, method: 'none', confident: false };
+  const found = targetWords.filter(word => givenWords.includes(word)).length;
+  const extra = givenWords.filter(word => !targetWords.includes(word)).length;
+  if (found === targetWords.length && extra <= Math.max(2, targetWords.length)) {
+    return { score: 1, method: 'normalized', confident: !negationDiffers };
+  }
+
+  // Some key words: partial credit in quarters, for the AI to confirm or overrule
+  const recall = found / targetWords.length;
+  if (recall >= 0.5) {
+    return {
+      score: Math.floor(recall * 4) / 4,
+      method: 'partial',
+      confident: false,
+      rationale: `Partly right: you covered ${found} of ${targetWords.length} key terms.`
+    };
+  }
+  return { score: 0, method: 'none', confident: false };
+};
+
+// Best grade against the answer and every accepted alternative
+export const gradeLocally = (question: QuizQuestion, answer: string): LocalGrade => {
+  if (!answer.trim()) return { score: 0, method: 'none', confident: true };
+
+  let best = gradeText(answer, question.correctAnswer);
+  for (const alternative of question.acceptedAnswers || []) {
+    // A misspelled answer may still be an exact alternative, which needs no spelling note
+    if (best.score >= 1 && best.method !== 'typo') break;
+    const grade = gradeText(answer, alternative);
+    const cleanerMatch = grade.score >= 1 && best.method === 'typo' && grade.method !== 'typo';
+    if (grade.score > best.score || cleanerMatch || (grade.score === best.score && grade.confident && !best.confident)) {
+      best = grade.score >= 1 ? { ...grade, method: 'alternative' } : grade;
+    }
+  }
+  return best;
+};
+
+interface GradeOptions {
+  useAI?: boolean;
+  signal?: AbortSignal;
+}
+
+export const gradeAnswer = async (
+  question: QuizQuestion,
+  answer: string,
+  { useAI = false, signal }: GradeOptions = {}
+): Promise<AnswerGrade> => {
+  const { confident, ...local } = gradeLocally(question, answer);
+  if (confident || !useAI) return local;
+
+  try {
+    const { score, rationale } = await gradeAnswerWithAI(question, answer, signal);
+    return { score: Math.round(Math.min(Math.max(score, 0), 1) * 20) / 20, method: 'ai', rationale };
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    // The local guess is still a fair grade when the AI can't be reached
+    console.warn("AI grading failed, using local grade", e);
+    return local;
+  }
+};
+
+// --- Ordering and matching ---
+
+// The expected answer as one line of text, for reviews outside the quiz
+export const formatCorrectAnswer = (question: QuizQuestion): string => {
+  if (question.type === QuestionType.ORDERING) return question.orderingItems?.join(' → ') || '';
+  if (question.type === QuestionType.MATCHING) return question.matchingPairs?.map(p => `${p.left} → ${p.right}`).join('; ') || '';
+  return question.correctAnswer;
+};
+
+// Longest run of items already in the right relative order (longest increasing
+// subsequence of their correct positions). Everything outside it is misplaced.
+const longestInOrder = (ranks: number[]): Set<number> => {
+  const lengths = ranks.map(() => 1);
+  const previous = ranks.map(() => -1);
+  for (let i = 0; i < ranks.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (ranks[j] < ranks[i] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  }
+  const kept = new Set<number>();
+  let i = lengths.indexOf(Math.max(...lengths));
+  while (i >= 0) {
+    kept.add(i);
+    i = previous[i];
+  }
+  return kept;
+};
+
+// Credit scales from 0 for a fully reversed sequence to 1 for a perfect one
+export const gradeOrdering = (given: string[], correct: string[]): AnswerGrade => {
+  if (correct.length === 0) return { score: 0, method: 'none' };
+  const ranks = given.map(item => correct.indexOf(item));
+  const kept = longestInOrder(ranks);
+  const misplaced = given.filter((_, i) => !kept.has(i) || ranks[i] < 0);
+  if (misplaced.length === 0 && given.length === correct.length) return { score: 1, method: 'exact' };
+
+  const inOrder = correct.length - misplaced.length;
+  const score = correct.length > 1 ? Math.max(0, inOrder - 1) / (correct.length - 1) : 0;
+  return {
+    score: Math.round(score * 100) / 100,
+    method: score > 0 ? 'partial' : 'none',
+    rationale: `${inOrder} of ${correct.length} steps were in the right order; move the highlighted ones.`,
+    misplaced
+  };
+};
+
+export const gradeMatching = (matches: Record<string, string>, pairs: { left: string; right: string }[]): AnswerGrade => {
+  if (pairs.length === 0) return { score: 0, method: 'none' };
+  const right = pairs.filter(pair => matches[pair.left] === pair.right).length;
+  if (right === pairs.length) return { score: 1, method: 'exact' };
+  return {
+    score: Math.round((right / pairs.length) * 100) / 100,
+    method: right > 0 ? 'partial' : 'none',
+    rationale: `${right} of ${pairs.length} pairs matched correctly.`
+  };
+};
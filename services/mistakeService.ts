@@ -0,0 +1,82 @@
+import { QuizQuestion, QuestionAttempt, MistakeEntry } from '../types';
+import { getCardId } from './srsService';
+import { isConfidentlyWrong } from './calibration';
+import { getDeck, saveDeck } from './dataStore';
+
+// Mistake notebook: every wrong attempt is kept with the user's answer and
+// feedback, until the question has been answered correctly enough times in a row.
+
+export const MASTERY_STREAK = 3;
+const MAX_ATTEMPTS_KEPT = 10;
+
+const loadNotebook = (userId: string): Record<string, MistakeEntry> =>
+  ({ ...getDeck<Record<string, MistakeEntry>>(userId, 'mistakes') });
+
+const saveNotebook = (userId: string, notebook: Record<string, MistakeEntry>) => {
+  saveDeck(userId, 'mistakes', notebook);
+};
+
+// Wrong (or partly wrong) answers go in; right answers count towards leaving
+export const recordAttempt = (userId: string, question: QuizQuestion, topic: string, attempt: QuestionAttempt) => {
+  const notebook = loadNotebook(userId);
+  const id = getCardId(question);
+  const entry = notebook[id];
+
+  if (attempt.score >= 1) {
+    // A lucky guess doesn't show the question has been learned
+    if (!entry || attempt.confidence === 'GUESS') return;
+    const correctStreak = entry.correctStreak + 1;
+    if (correctStreak >= MASTERY_STREAK) {
+      delete notebook[id];
+    } else {
+      notebook[id] = { ...entry, correctStreak, updatedAt: attempt.timestamp };
+    }
+    saveNotebook(userId, notebook);
+    return;
+  }
+
+  notebook[id] = {
+    id,
+    question: { ...question, id: 0 },
+    topic: entry?.topic || topic,
+    attempts: [...(entry?.attempts || []), attempt].slice(-MAX_ATTEMPTS_KEPT),
+    correctStreak: 0,
+    createdAt: entry?.createdAt || attempt.timestamp,
+    updatedAt: attempt.timestamp
+  };
+  saveNotebook(userId, notebook);
+};
+
+// Explain It Back feedback arrives after the answer was graded; attach it to that attempt
+export const attachExplanationFeedback = (
+  userId: string,
+  question: QuizQuestion,
+  feedback: { isCorrect: boolean; feedback: string }
+) => {
+  const notebook = loadNotebook(userId);
+  const entry = notebook[getCardId(question)];
+  if (!entry || entry.attempts.length === 0) return;
+
+  const attempts = [...entry.attempts];
+  attempts[attempts.length - 1] = { ...attempts[attempts.length - 1], explanationFeedback: feedback };
+  notebook[entry.id] = { ...entry, attempts };
+  saveNotebook(userId, notebook);
+};
+
+// Last missed with confidence, for review priority
+export const isConfidentMistake = (entry: MistakeEntry) =>
+  isConfidentlyWrong(entry.attempts[entry.attempts.length - 1]);
+
+// Confidently wrong first, then newest
+export const getMistakes = (userId: string): MistakeEntry[] =>
+  Object.values(loadNotebook(userId)).sort((a, b) =>
+    Number(isConfidentMistake(b)) - Number(isConfidentMistake(a)) || b.updatedAt - a.updatedAt);
+
+export const removeMistake = (userId: string, id: string) => {
+  const notebook = loadNotebook(userId);
+  delete notebook[id];
+  saveNotebook(userId, notebook);
+};
+
+export const buildMistakeSession = (entries: MistakeEntry[]): QuizQuestion[] =>
+  entries.map((entry, i) => ({ ...entry.question, id: i + 1 }));
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { QuestionType, AIPersonality, QuizSettings } from '../types';
+import { createMockProvider } from './mockProvider';
+import { validateQuestions, getAllowedTypes } from './quizValidator';
+import { AbortedError } from './aiErrors';
+
+const content = { text: 'Plants make glucose from light. Oxygen is released.', files: [] };
+
+const settings: QuizSettings = {
+  difficulty: 'MEDIUM',
+  timeLimit: 0,
+  allowedTypes: [QuestionType.TRUE_FALSE, QuestionType.FILL_IN_THE_BLANK],
+  personality: AIPersonality.PROFESSOR,
+  enableExplainItBack: false
+};
+
+describe('mock provider', () => {
+  const provider = createMockProvider();
+
+  it('returns the requested number of questions, the same every time', async () => {
+    const first = await provider.generateQuiz({ content, mode: 'MIXED', count: 9 });
+    const second = await provider.generateQuiz({ content, mode: 'MIXED', count: 9 });
+    expect(first).toHaveLength(9);
+    expect(second).toEqual(first);
+    expect(first.map(q => q.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('only uses the types the mode allows', async () => {
+    const questions = await provider.generateQuiz({ content, mode: 'MIXED', count: 6, settings });
+    expect(new Set(questions.map(q => q.type))).toEqual(new Set(settings.allowedTypes));
+
+    const conceptual = await provider.generateQuiz({ content, mode: 'CONCEPTUAL', count: 4 });
+    expect(conceptual.every(q => q.type === QuestionType.ORDERING || q.type === QuestionType.MATCHING)).toBe(true);
+  });
+
+  it('produces questions the validator accepts unchanged', async () => {
+    for (const mode of ['MIXED', 'EXAM', 'CONCEPTUAL', 'FLASHCARD', 'BOSS_BATTLE'] as const) {
+      const questions = await provider.generateQuiz({ content, mode, count: 7 });
+      const report = validateQuestions(questions, 1, getAllowedTypes(mode));
+      expect(report.rejected, mode).toEqual([]);
+      expect(report.repairedCount, mode).toBe(0);
+    }
+  });
+
+  it('cites the first sentence of the notes', async () => {
+    const [question] = await provider.generateQuiz({ content, mode: 'MIXED', count: 1 });
+    expect(question.source).toEqual({ excerpt: 'Plants make glucose from light.' });
+  });
+
+  it('throws AbortedError once the signal has aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(provider.generateQuiz({ content, mode: 'MIXED', count: 1 }, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(AbortedError);
+  });
+
+  it('grades typed answers against the accepted answers', async () => {
+    const exact = await provider.gradeAnswer({ question: 'Pigment?', correctAnswer: 'Chlorophyll', acceptedAnswers: [], userAnswer: 'chlorophyll' });
+    const wrong = await provider.gradeAnswer({ question: 'Pigment?', correctAnswer: 'Chlorophyll', acceptedAnswers: [], userAnswer: 'carotene' });
+    expect(exact.score).toBe(1);
+    expect(wrong.score).toBeLessThan(1);
+  });
+});
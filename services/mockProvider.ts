@@ -0,0 +1,180 @@
+import { QuizQuestion, QuestionType, QuizMode, QuizSettings } from "../types";
+import { AIProvider, CallOptions } from "./aiProvider";
+import { AbortedError } from "./aiErrors";
+import { tokenSimilarity } from "./textMatching";
+
+// Deterministic stand-in for a real model. No network, no API key.
+
+export const MOCK_QUESTIONS: QuizQuestion[] = [
+  {
+    id: 1,
+    type: QuestionType.MULTIPLE_CHOICE,
+    question: "Which organelle is the main site of photosynthesis in plant cells?",
+    options: ["Mitochondrion", "Chloroplast", "Nucleus", "Ribosome"],
+    correctAnswer: "Chloroplast",
+    explanation: "Chloroplasts contain chlorophyll, which captures light energy to turn carbon dioxide and water into glucose.",
+    hint: "It is green. It contains chlorophyll.",
+    simpleExplanation: "A chloroplast is like a tiny solar panel inside the leaf that makes sugar snacks for the plant.",
+    searchQuery: "chloroplast photosynthesis explained"
+  },
+  {
+    id: 2,
+    type: QuestionType.TRUE_FALSE,
+    question: "Photosynthesis releases oxygen as a by-product.",
+    options: ["True", "False"],
+    correctAnswer: "True",
+    explanation: "Water molecules are split during the light reactions, and the leftover oxygen is released.",
+    hint: "Think about what you breathe in. Where does it come from?",
+    simpleExplanation: "Plants breathe out the air we breathe in, like a friend passing you a balloon.",
+    searchQuery: "where does oxygen come from in photosynthesis"
+  },
+  {
+    id: 3,
+    type: QuestionType.SHORT_ANSWER,
+    question: "What pigment gives leaves their green colour?",
+    options: [],
+    correctAnswer: "Chlorophyll",
+    acceptedAnswers: ["Chlorophyll a", "Chlorophylls"],
+    explanation: "Chlorophyll absorbs red and blue light and reflects green light, which is why leaves look green.",
+    hint: "It starts with 'chloro'. It absorbs light.",
+    simpleExplanation: "Chlorophyll is the leaf's green paint that also catches sunshine.",
+    searchQuery: "chlorophyll why leaves are green"
+  },
+  {
+    id: 4,
+    type: QuestionType.ORDERING,
+    question: "Put the stages of photosynthesis in order.",
+    options: [],
+    correctAnswer: "",
+    orderingItems: [
+      "Light is absorbed by chlorophyll",
+      "Water is split and oxygen is released",
+      "ATP and NADPH are produced",
+      "Carbon dioxide is fixed into glucose"
+    ],
+    explanation: "The light reactions capture energy first; the Calvin cycle then uses that energy to build sugar.",
+    hint: "Energy has to be captured before it can be spent.",
+    simpleExplanation: "First you charge the battery, then you use it to build with LEGO.",
+    searchQuery: "light reactions vs calvin cycle"
+  },
+  {
+    id: 5,
+    type: QuestionType.MATCHING,
+    question: "Match each term to its description.",
+    options: [],
+    correctAnswer: "",
+    matchingPairs: [
+      { left: "Stomata", right: "Pores that let gases in and out" },
+      { left: "Xylem", right: "Carries water up from the roots" },
+      { left: "Glucose", right: "Sugar made during photosynthesis" },
+      { left: "Thylakoid", right: "Membrane where light reactions happen" }
+    ],
+    explanation: "Each structure plays one part in getting raw materials in and products out of the leaf.",
+    hint: "Xylem moves water. Start there.",
+    simpleExplanation: "A leaf is a little factory: doors, pipes, a product and a workshop.",
+    searchQuery: "leaf structure stomata xylem thylakoid"
+  },
+  {
+    id: 6,
+    type: QuestionType.FILL_IN_THE_BLANK,
+    question: "The Calvin cycle takes place in the ______ of the chloroplast.",
+    options: [],
+    correctAnswer: "stroma",
+    acceptedAnswers: ["chloroplast stroma"],
+    explanation: "The stroma is the fluid around the thylakoids where the enzymes of the Calvin cycle work.",
+    hint: "It is the fluid, not the membranes.",
+    simpleExplanation: "The stroma is the kitchen counter where the sugar gets cooked.",
+    searchQuery: "calvin cycle stroma"
+  },
+  {
+    id: 7,
+    type: QuestionType.FLASHCARD,
+    question: "Word equation for photosynthesis",
+    options: [],
+    correctAnswer: "Carbon dioxide + water → glucose + oxygen",
+    explanation: "Light energy drives the reaction, absorbed by chlorophyll.",
+    hint: "Two inputs, two outputs.",
+    simpleExplanation: "Air plus water plus sunshine makes food plus fresh air.",
+    searchQuery: "photosynthesis word equation"
+  }
+];
+
+const getTypesForMode = (mode: QuizMode, settings?: QuizSettings): QuestionType[] => {
+  switch (mode) {
+    case 'MULTIPLE_CHOICE': return [QuestionType.MULTIPLE_CHOICE];
+    case 'TRUE_FALSE': return [QuestionType.TRUE_FALSE];
+    case 'SHORT_ANSWER': return [QuestionType.SHORT_ANSWER];
+    case 'FLASHCARD': return [QuestionType.FLASHCARD];
+    case 'FILL_IN_THE_BLANK': return [QuestionType.FILL_IN_THE_BLANK];
+    case 'CONCEPTUAL': return [QuestionType.ORDERING, QuestionType.MATCHING];
+    case 'BOSS_BATTLE': return [QuestionType.MULTIPLE_CHOICE, QuestionType.SHORT_ANSWER];
+    case 'EXAM': return [QuestionType.MULTIPLE_CHOICE, QuestionType.TRUE_FALSE, QuestionType.SHORT_ANSWER, QuestionType.FILL_IN_THE_BLANK, QuestionType.ORDERING, QuestionType.MATCHING];
+    default:
+      return settings?.allowedTypes?.length
+        ? settings.allowedTypes
+        : [QuestionType.MULTIPLE_CHOICE, QuestionType.TRUE_FALSE, QuestionType.SHORT_ANSWER];
+  }
+};
+
+const checkAborted = (options?: CallOptions) => {
+  if (options?.signal?.aborted) throw new AbortedError();
+};
+
+export const createMockProvider = (): AIProvider => ({
+  name: 'mock',
+
+  describe: async () => 'mock',
+
+  generateQuiz: async ({ content, mode, count, settings }, options) => {
+    checkAborted(options);
+    const types = getTypesForMode(mode, settings);
+    let pool = MOCK_QUESTIONS.filter(q => types.includes(q.type));
+    if (pool.length === 0) pool = MOCK_QUESTIONS;
+
+    // Cite the first sentence of whatever was provided, so citations show up offline too
+    const excerpt = content.text.trim().split(/(?<=[.!?])\s+/)[0].slice(0, 200);
+    const fileName = content.files[0]?.name;
+
+    return Array.from({ length: count }, (_, i) => ({
+      ...pool[i % pool.length],
+      id: i + 1,
+      source: excerpt ? { excerpt } : (fileName ? { fileName, page: 1, excerpt: pool[i % pool.length].explanation } : undefined)
+    }));
+  },
+
+  generateSummary: async ({ content: { text, files } }, options) => {
+    checkAborted(options);
+    const overview = text.trim().split('\n')[0].slice(0, 80) || `${files.length} attached file(s)`;
+    return [
+      `Offline summary of: ${overview}`,
+      '',
+      'KEY CONCEPTS',
+      '• This summary was produced by the mock AI provider.',
+      '• Configure an API key to get real summaries.',
+      '',
+      'KEY TAKEAWAYS',
+      '• Everything else in the app works the same way.'
+    ].join('\n');
+  },
+
+  validateExplanation: async ({ correctConcept, userExplanation }, options) => {
+    checkAborted(options);
+    const concept = correctConcept.toLowerCase();
+    const isCorrect = concept.length > 0 && userExplanation.toLowerCase().includes(concept);
+    return {
+      isCorrect,
+      feedback: isCorrect
+        ? "Nice, you covered the key idea."
+        : `Close! Make sure you mention "${correctConcept}".`
+    };
+  },
+
+  gradeAnswer: async ({ correctAnswer, acceptedAnswers, userAnswer }, options) => {
+    checkAborted(options);
+    const score = Math.max(...[correctAnswer, ...acceptedAnswers].map(a => tokenSimilarity(a, userAnswer)));
+    return {
+      score,
+      rationale: score >= 1 ? "That matches the expected answer." : `The expected answer was "${correctAnswer}".`
+    };
+  }
+});
@@ -0,0 +1,48 @@
+// Password hashing with PBKDF2 (WebCrypto) and a random per-user salt, plus
+// the strength rules new passwords have to pass.
+
+export const PBKDF2_ITERATIONS = 600_000; // OWASP guidance for PBKDF2-HMAC-SHA256
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export interface PasswordHash {
+  hash: string;  // Base64
+  salt: string;  // Base64
+  iterations: number;
+}
+
+export const PASSWORD_RULES: { label: string; test: (password: string) => boolean }[] = [
+  { label: 'At least 8 characters', test: p => p.length >= 8 },
+  { label: 'Upper and lower case letters', test: p => /[a-z]/.test(p) && /[A-Z]/.test(p) },
+  { label: 'At least one number', test: p => /\d/.test(p) },
+  { label: 'At least one symbol', test: p => /[^A-Za-z0-9]/.test(p) }
+];
+
+// Labels of the rules the password breaks, empty when it's strong enough
+export const getPasswordProblems = (password: string): string[] =>
+  PASSWORD_RULES.filter(rule => !rule.test(password)).map(rule => rule.label);
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const derive = async (password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return { hash: toBase64(hash), salt: toBase64(salt), iterations: PBKDF2_ITERATIONS };
+};
+
+// Compares every byte so the time taken doesn't reveal how much of the hash matched
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const expected = fromBase64(stored.hash);
+  const actual = await derive(password, fromBase64(stored.salt), stored.iterations);
+  if (actual.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ expected[i];
+  return diff === 0;
+};
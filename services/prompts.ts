@@ -0,0 +1,172 @@
+import { QuizMode, QuizSettings, AIPersonality } from "../types";
+
+// Prompt text shared by every provider so switching backends doesn't change the quiz style
+
+export const SUMMARY_SYSTEM_INSTRUCTION = "You are an expert tutor. Create clear, structured study summaries.";
+
+export const buildNotesPrompt = (textNotes: string) => `Here are my study notes/topic: \n\n${textNotes}`;
+
+export const buildSummaryPrompt = (extraInstructions: string = '') => `
+    Analyze the provided content (text and files) and create a comprehensive study summary.
+    
+    Structure the summary as follows:
+    1. A brief 1-sentence overview of the main topic.
+    2. Key Concepts & Definitions (bullet points).
+    3. Important Details (bullet points, grouped by sub-topic if necessary).
+    4. Key Takeaways.
+
+    Use clear, concise language. 
+    Format using standard text. 
+    Use "•" for bullet points.
+    Use CAPS for section headers (e.g., "KEY CONCEPTS").
+    Do not use markdown symbols like ** or ##.
+    Ensure the output is clean and easy to read.
+    ${extraInstructions}
+  `;
+
+export const buildSectionSummaryInstructions = (label: string, instructions: string) => `
+    ${instructions}
+    This is only one section ("${label}") of a longer document; summarize just this section and skip the overview line.
+  `;
+
+export const MERGE_SUMMARIES_INSTRUCTIONS = `
+    The provided text is a series of summaries of consecutive sections of ONE document, in order.
+    Merge them into a single summary of the whole document following the structure above.
+    Keep concepts from every section, combine duplicates, and keep the original order of topics.
+  `;
+
+// Questions from earlier sessions on the same material
+export const buildAvoidInstructions = (asked: string[]) => asked.length === 0 ? '' : `
+    The learner has already been asked these questions about this material:
+    ${asked.map((q, i) => `${i + 1}. ${q}`).join('\n')}
+    Do not repeat or reword any of them; ask about other facts and concepts, or test the same ones from a clearly different angle.
+  `;
+
+export const buildExplanationPrompt = (
+    conceptQuestion: string,
+    correctConcept: string,
+    userExplanation: string
+) => `
+      I asked a student: "${conceptQuestion}".
+      The correct key concept/answer is: "${correctConcept}".
+      The student explained: "${userExplanation}".
+
+      Evaluate if the student understands the concept.
+      1. isCorrect: true if they grasped the core meaning, even if wording is different. false if they are wrong or missed the point completely.
+      2. feedback: A short, 1-sentence supportive feedback. If wrong, gently correct them.
+    `;
+
+export const buildGradingPrompt = (
+    question: string,
+    correctAnswer: string,
+    acceptedAnswers: string[],
+    userAnswer: string
+) => `
+      Grade a student's answer to a quiz question.
+      Question: "${question}"
+      Expected answer: "${correctAnswer}"
+      ${acceptedAnswers.length > 0 ? `Also accepted: ${acceptedAnswers.map(a => `"${a}"`).join(', ')}` : ''}
+      Student's answer: "${userAnswer}"
+
+      1. score: a number from 0 to 1. 1 if the answer means the same as the expected answer (synonyms and different wording are fine),
+         0 if it is wrong, contradicts it or negates it, and a value in between if it is incomplete but partly right.
+      2. rationale: one short sentence telling the student why, addressed to them.
+    `;
+
+const getTypeInstruction = (mode: QuizMode, settings?: QuizSettings) => {
+  let typeInstruction = "Mix multiple choice, true/false, and short answer questions.";
+  if (mode === 'MULTIPLE_CHOICE') typeInstruction = "Generate only Multiple Choice questions.";
+  else if (mode === 'TRUE_FALSE') typeInstruction = "Generate only True/False questions.";
+  else if (mode === 'SHORT_ANSWER') typeInstruction = "Generate only Short Answer questions.";
+  else if (mode === 'FLASHCARD') typeInstruction = "Generate only FLASHCARD items. Question is the Front, CorrectAnswer is the Back.";
+  else if (mode === 'FILL_IN_THE_BLANK') typeInstruction = "Generate only FILL_IN_THE_BLANK questions.";
+  else if (mode === 'CONCEPTUAL') typeInstruction = "Generate only ORDERING (Ranking/Sequence) and MATCHING (Concept Mapping) questions to test deep understanding.";
+  else if (mode === 'EXAM') typeInstruction = "Generate a realistic exam paper: mix Multiple Choice, True/False, Short Answer, Fill in the Blank, Ordering and Matching questions. No flashcards.";
+  else if (mode === 'BOSS_BATTLE') typeInstruction = "Generate HIGH STAKES questions. Mostly Multiple Choice and Short Answer, but make them challenging scenarios.";
+  else if (mode === 'MIXED' && settings?.allowedTypes) {
+    const types = settings.allowedTypes.map(t => t.replace('_', ' ')).join(', ');
+    typeInstruction = `Generate a mix of only these question types: ${types}.`;
+  }
+  return typeInstruction;
+};
+
+const getDifficultyInstruction = (settings?: QuizSettings) => {
+  let difficultyInstruction = "";
+  if (settings?.difficulty) {
+    const diff = settings.difficulty;
+    if (diff === 'EASY') difficultyInstruction = "Make the questions EASY and straightforward, testing basic recall.";
+    if (diff === 'MEDIUM') difficultyInstruction = "Make the questions of MEDIUM difficulty, requiring understanding of concepts.";
+    if (diff === 'HARD') difficultyInstruction = "Make the questions HARD and complex, requiring analysis and critical thinking. Use scenarios where possible.";
+  }
+  return difficultyInstruction;
+};
+
+// Persona Logic
+export const getPersona = (settings?: QuizSettings) => {
+  let personaInstruction = "You are an expert tutor.";
+  let toneInstruction = "Provide clear, concise explanations.";
+  
+  if (settings?.personality === AIPersonality.COACH) {
+      personaInstruction = "You are a high-energy, tough-love sports coach for the brain. 'DROP AND GIVE ME 20 FACTS!' style.";
+      toneInstruction = "Use uppercase for emphasis. Be motivational but intense. Call the user 'Cadet' or 'Rookie'.";
+  } else if (settings?.personality === AIPersonality.BUDDY) {
+      personaInstruction = "You are a chill, supportive study buddy who uses slang (like 'no cap', 'bet', 'lit').";
+      toneInstruction = "Keep it casual. Use emojis. Act like a peer.";
+  } else if (settings?.personality === AIPersonality.SOCRATIC) {
+      personaInstruction = "You are a Socratic professor. You rarely give direct answers, preferring to ask guiding questions.";
+      toneInstruction = "In the 'explanation' field, do NOT just give the answer. Instead, explain the logic path so the user discovers it.";
+  }
+
+  return { personaInstruction, toneInstruction };
+};
+
+export const buildQuizSystemInstruction = (settings?: QuizSettings) =>
+  getPersona(settings).personaInstruction + " Output strictly valid JSON arrays of quiz objects.";
+
+export const buildQuizPrompt = (mode: QuizMode, count: number, settings?: QuizSettings, extraInstructions: string = '') => {
+  const { toneInstruction } = getPersona(settings);
+
+  return `
+    Create a study quiz based on the provided content.
+    The content may include text notes and attached files (images or PDFs).
+    Analyze all attached documents thoroughly.
+    
+    Generate exactly ${count} questions.
+    ${getTypeInstruction(mode, settings)}
+    ${getDifficultyInstruction(settings)}
+    ${toneInstruction}
+    
+    IMPORTANT RULES:
+    1. Questions must be educational and test understanding of the specific provided content.
+    2. For Multiple Choice, provide 4 options.
+       CRITICAL: The 'correctAnswer' field MUST be the exact text of the correct option string.
+    3. For Short Answer, options array must be empty.
+    4. 'hint' should be a progressive clue.
+    5. 'simpleExplanation' should explain the concept like I'm 5 years old (ELI5), using a fun analogy.
+    6. 'searchQuery' should be a specific string optimized for YouTube/Google Search.
+    7. 'source' cites the material that supports the answer:
+       - 'excerpt' is a short VERBATIM quote (one or two sentences, max 40 words) copied from the notes or file. Never paraphrase.
+       - 'fileName' is the attached file's name if the quote comes from a file; omit it for typed notes.
+       - 'page' is the PDF page number the quote is on; omit it otherwise.
+    
+    FOR "ORDERING" TYPE:
+    - Provide a list of 3-5 items in 'orderingItems' that represent a sequence, hierarchy, or process step-by-step.
+    
+    FOR "MATCHING" TYPE:
+    - Provide exactly 4 pairs in 'matchingPairs'. 
+
+    FOR "FLASHCARD" TYPE:
+    - 'question' is the Front of the card.
+    - 'correctAnswer' is the Back of the card.
+
+    FOR "FILL_IN_THE_BLANK" TYPE:
+    - 'question' must be a sentence with a missing part represented by exactly 6 underscores: "______".
+    - 'correctAnswer' is the missing word or short phrase.
+
+    FOR "SHORT_ANSWER" AND "FILL_IN_THE_BLANK" TYPES:
+    - 'acceptedAnswers' lists up to 5 other answers that are equally correct: synonyms, common alternative names, abbreviations, spelled-out numbers.
+      Never include answers that are only partly right.
+    ${extraInstructions}
+    Output valid JSON only, no markdown.
+  `;
+};
@@ -0,0 +1,73 @@
+import { QuizQuestion } from "../types";
+import { AIProvider, CallOptions } from "./aiProvider";
+import { NetworkError, MalformedResponseError, aiErrorFromCode, isAbortError, AbortedError } from "./aiErrors";
+
+interface ProxyProviderOptions {
+  baseUrl?: string;
+  getAccessToken?: () => Promise<string | undefined>; // Lets the server rate-limit by verified user
+}
+
+// Browser-side provider: forwards every call to our backend, which holds the API key
+export const createProxyProvider = ({ baseUrl = '', getAccessToken }: ProxyProviderOptions = {}): AIProvider => {
+  const post = async <T>(path: string, body: unknown, options?: CallOptions): Promise<T> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const accessToken = await getAccessToken?.();
+    if (accessToken) headers['Authorization'] = `Bearer ${accessToken}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: options?.signal
+      });
+    } catch (e) {
+      if (isAbortError(e)) throw new AbortedError();
+      throw new NetworkError((e as Error).message);
+    }
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw aiErrorFromCode(
+        data?.code || (response.status >= 500 ? 'PROVIDER_UNAVAILABLE' : undefined),
+        data?.error || `Request failed (${response.status}).`,
+        retryAfter ? retryAfter * 1000 : undefined
+      );
+    }
+    return data as T;
+  };
+
+  // The server's provider doesn't change while it runs, so ask once
+  let description: Promise<string> | null = null;
+
+  return {
+    name: 'proxy',
+
+    describe: options => {
+      if (!description) {
+        description = post<{ provider: string; model: string }>('/api/provider', {}, options)
+          .then(({ provider, model }) => `${provider}/${model}`);
+        description.catch(() => { description = null; });
+      }
+      return description;
+    },
+
+    generateQuiz: async (request, options) => {
+      // Each question is checked by validateQuestions before it's used
+      const { questions } = await post<{ questions: QuizQuestion[] }>('/api/quiz', request, options);
+      if (!Array.isArray(questions)) throw new MalformedResponseError('The server sent no questions.');
+      return questions;
+    },
+
+    generateSummary: async (request, options) => {
+      const { summary } = await post<{ summary: string }>('/api/summary', request, options);
+      return summary;
+    },
+
+    validateExplanation: (request, options) => post('/api/validate-explanation', request, options),
+
+    gradeAnswer: (request, options) => post('/api/grade-answer', request, options)
+  };
+};
@@ -0,0 +1,46 @@
+import { QuizQuestion } from '../types';
+import { isNearDuplicate } from './textMatching';
+import { getDeck, saveDeck } from './dataStore';
+
+// Question bank: every question the user has been shown, keyed by the material
+// it came from, so later sessions on the same notes can ask something new.
+
+const MAX_BANK_SIZE = 500;  // Oldest questions drop out first
+
+interface BankEntry {
+  text: string;
+  source: string; // Material key from buildMaterialKey
+  askedAt: number;
+}
+
+const loadBank = (userId: string): BankEntry[] => [...(getDeck<BankEntry[]>(userId, 'bank') || [])];
+
+const saveBank = (userId: string, bank: BankEntry[]) => {
+  saveDeck(userId, 'bank', bank.slice(-MAX_BANK_SIZE));
+};
+
+// Everything asked on this material, most recent first
+export const getAvoidList = (userId: string, source: string): string[] =>
+  loadBank(userId)
+    .filter(entry => entry.source === source)
+    .reverse()
+    .map(entry => entry.text);
+
+// Splits a batch into questions the user hasn't seen on this material and ones they have
+export const classifyQuestions = (userId: string, source: string, questions: QuizQuestion[]) => {
+  const asked = loadBank(userId).filter(entry => entry.source === source);
+  const repeated = questions.filter(q => asked.some(entry => isNearDuplicate(entry.text, q.question)));
+  return { fresh: questions.length - repeated.length, repeated: repeated.length };
+};
+
+export const addToBank = (userId: string, source: string, questions: QuizQuestion[]) => {
+  const bank = loadBank(userId);
+  const now = Date.now();
+  questions.forEach(q => {
+    const existing = bank.findIndex(entry => entry.source === source && isNearDuplicate(entry.text, q.question));
+    // A repeat moves to the end so it stays on the avoid list longer
+    if (existing !== -1) bank.splice(existing, 1);
+    bank.push({ text: q.question, source, askedAt: now });
+  });
+  saveBank(userId, bank);
+};
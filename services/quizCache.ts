@@ -0,0 +1,171 @@
+import { QuizQuestion, QuizMode, QuizSettings } from '../types';
+
+// Local cache of generated quizzes and summaries in IndexedDB, kept per user and
+// keyed by a hash of the notes, the file bytes, the provider and model and the
+// generation settings. Least recently used entries are evicted once the cache
+// grows past its limits.
+
+const DB_NAME = 'synapsy_cache';
+const DB_VERSION = 2;
+const STORE = 'entries';
+
+const MAX_ENTRIES = 50;
+const MAX_TOTAL_BYTES = 25 * 1024 * 1024;
+
+export type CacheKind = 'quiz' | 'summary';
+
+interface CacheEntry<T> {
+  userId: string;
+  key: string;
+  kind: CacheKind;
+  value: T;
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        // Version 1 entries weren't kept per user; it's only a cache, so start over
+        if (request.result.objectStoreNames.contains(STORE)) request.result.deleteObjectStore(STORE);
+        const store = request.result.createObjectStore(STORE, { keyPath: ['userId', 'key'] });
+        store.createIndex('lastAccess', 'lastAccess');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure forever
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource) => toHex(await crypto.subtle.digest('SHA-256', data));
+
+// Only the settings that change what gets generated; the timer doesn't
+const generationParams = (mode?: QuizMode, count?: number, settings?: QuizSettings) => ({
+  mode,
+  count,
+  difficulty: settings?.difficulty,
+  allowedTypes: settings?.allowedTypes ? [...settings.allowedTypes].sort() : undefined,
+  personality: settings?.personality
+});
+
+const hashFiles = async (files: File[]): Promise<string[]> => {
+  const fileHashes: string[] = [];
+  for (const file of files) {
+    fileHashes.push(await sha256(await file.arrayBuffer()));
+  }
+  return fileHashes;
+};
+
+export const buildCacheKey = async (
+  kind: CacheKind,
+  provider: string, // From describeProvider
+  text: string,
+  files: File[],
+  mode?: QuizMode,
+  count?: number,
+  settings?: QuizSettings
+): Promise<string> => {
+  const fileHashes = await hashFiles(files);
+  const material = JSON.stringify({
+    kind,
+    provider,
+    text: text.trim(),
+    files: fileHashes,
+    params: kind === 'quiz' ? generationParams(mode, count, settings) : null
+  });
+  return sha256(new TextEncoder().encode(material));
+};
+
+// Identifies the notes and files alone, whatever settings they're quizzed with
+export const buildMaterialKey = async (text: string, files: File[]): Promise<string> =>
+  sha256(new TextEncoder().encode(JSON.stringify({ text: text.trim(), files: await hashFiles(files) })));
+
+// Drop least recently used entries until we're back under both limits
+const evict = async (db: IDBDatabase) => {
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  const entries = await promisify(store.index('lastAccess').getAll()) as CacheEntry<unknown>[];
+
+  let totalBytes = entries.reduce((acc, e) => acc + e.size, 0);
+  let count = entries.length;
+  for (const entry of entries) {
+    if (count <= MAX_ENTRIES && totalBytes <= MAX_TOTAL_BYTES) break;
+    store.delete([entry.userId, entry.key]);
+    totalBytes -= entry.size;
+    count--;
+  }
+};
+
+const getEntry = async <T>(userId: string, key: string): Promise<T | null> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const entry = await promisify(store.get([userId, key])) as CacheEntry<T> | undefined;
+    if (!entry) return null;
+    store.put({ ...entry, lastAccess: Date.now() });
+    return entry.value;
+  } catch (e) {
+    console.warn('Cache read failed', e);
+    return null;
+  }
+};
+
+const putEntry = async <T>(userId: string, key: string, kind: CacheKind, value: T) => {
+  try {
+    const db = await openDb();
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+      userId,
+      key,
+      kind,
+      value,
+      size: JSON.stringify(value).length * 2, // UTF-16, close enough for a budget
+      createdAt: now,
+      lastAccess: now
+    };
+    const tx = db.transaction(STORE, 'readwrite');
+    await promisify(tx.objectStore(STORE).put(entry));
+    await evict(db);
+  } catch (e) {
+    // A full or unavailable cache should never break generation
+    console.warn('Cache write failed', e);
+  }
+};
+
+export const getCachedQuiz = (userId: string, key: string) => getEntry<QuizQuestion[]>(userId, key);
+export const cacheQuiz = (userId: string, key: string, questions: QuizQuestion[]) => putEntry(userId, key, 'quiz', questions);
+
+export const getCachedSummary = (userId: string, key: string) => getEntry<string>(userId, key);
+export const cacheSummary = (userId: string, key: string, summary: string) => putEntry(userId, key, 'summary', summary);
+
+// Everything cached for one user, e.g. when their account is deleted
+export const clearUserCache = async (userId: string) => {
+  try {
+    const db = await openDb();
+    const range = IDBKeyRange.bound([userId], [userId, []]);
+    await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(range));
+  } catch (e) {
+    console.warn('Cache clear failed', e);
+  }
+};
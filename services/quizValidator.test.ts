@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { QuestionType } from '../types';
+import { validateQuestions, getAllowedTypes, BLANK_MARKER } from './quizValidator';
+
+const base = { explanation: 'Because.', hint: 'Think.', simpleExplanation: 'Simply.' };
+
+describe('validateQuestions', () => {
+  it('keeps valid questions and numbers them from firstId', () => {
+    const report = validateQuestions([
+      { ...base, type: 'MULTIPLE_CHOICE', question: 'Capital of France?', options: ['Paris', 'Rome'], correctAnswer: 'Paris' },
+      { ...base, type: 'TRUE_FALSE', question: 'The sky is blue.', options: ['True', 'False'], correctAnswer: 'True' }
+    ], 10);
+    expect(report.rejected).toEqual([]);
+    expect(report.repairedCount).toBe(0);
+    expect(report.valid.map(q => q.id)).toEqual([10, 11]);
+  });
+
+  it('maps an answer given as a letter onto its option', () => {
+    const report = validateQuestions([
+      { ...base, type: 'MULTIPLE_CHOICE', question: 'Capital of France?', options: ['Rome', 'Paris', 'Berlin'], correctAnswer: 'B' }
+    ]);
+    expect(report.valid[0].correctAnswer).toBe('Paris');
+    expect(report.repairedCount).toBe(1);
+  });
+
+  it('rejects a multiple choice answer that is none of the options', () => {
+    const report = validateQuestions([
+      { ...base, type: 'MULTIPLE_CHOICE', question: 'Capital of France?', options: ['Rome', 'Berlin'], correctAnswer: 'Madrid' }
+    ]);
+    expect(report.valid).toEqual([]);
+    expect(report.rejected[0].reason).toMatch(/not one of the options/);
+  });
+
+  it('normalizes true/false answers', () => {
+    const report = validateQuestions([
+      { ...base, type: 'true-false', question: 'Water is wet.', options: [], correctAnswer: 'yes' }
+    ]);
+    expect(report.valid[0]).toMatchObject({ type: QuestionType.TRUE_FALSE, correctAnswer: 'True', options: ['True', 'False'] });
+  });
+
+  it('blanks out the answer when a fill-in-the-blank question has no blank', () => {
+    const report = validateQuestions([
+      { ...base, type: 'FILL_IN_THE_BLANK', question: 'The Calvin cycle runs in the stroma.', options: [], correctAnswer: 'stroma' }
+    ]);
+    expect(report.valid[0].question).toBe(`The Calvin cycle runs in the ${BLANK_MARKER}.`);
+  });
+
+  it('rejects unknown types and things that are not questions', () => {
+    const report = validateQuestions([null, 'text', { ...base, type: 'ESSAY', question: 'Discuss.', correctAnswer: 'x' }]);
+    expect(report.valid).toEqual([]);
+    expect(report.rejected).toHaveLength(3);
+  });
+
+  it('rejects types the mode does not allow, swapping flashcards and short answers', () => {
+    const allowed = getAllowedTypes('SHORT_ANSWER');
+    const report = validateQuestions([
+      { ...base, type: 'FLASHCARD', question: 'Word equation for photosynthesis', options: [], correctAnswer: 'CO2 + water -> glucose + oxygen' },
+      { ...base, type: 'TRUE_FALSE', question: 'The sky is blue.', options: ['True', 'False'], correctAnswer: 'True' }
+    ], 1, allowed);
+    expect(report.valid.map(q => q.type)).toEqual([QuestionType.SHORT_ANSWER]);
+    expect(report.repairedCount).toBe(1);
+    expect(report.rejected[0].reason).toMatch(/not allowed/);
+  });
+
+  it('treats anything but an array as an empty batch', () => {
+    expect(validateQuestions({ questions: [] })).toEqual({ valid: [], rejected: [], repairedCount: 0 });
+  });
+});
@@ -0,0 +1,272 @@
+import { QuizQuestion, QuestionType, QuestionSource, QuizMode, QuizSettings } from "../types";
+import { normalizeOptionText, isOptionMatch, tokenSimilarity } from "./textMatching";
+
+// Checks generated questions against the rules the quiz prompt asks for.
+// Fixable problems are repaired in place; the rest are rejected with a reason
+// so the caller can ask the model for replacements.
+
+export const BLANK_MARKER = "______";
+
+export interface RejectedQuestion {
+  raw: unknown;
+  type?: string;
+  reason: string;
+}
+
+export interface ValidationReport {
+  valid: QuizQuestion[];
+  rejected: RejectedQuestion[];
+  repairedCount: number;
+}
+
+type CheckResult = { question: QuizQuestion; repaired: boolean } | { reason: string };
+
+const QUESTION_TYPES = Object.values(QuestionType) as string[];
+
+const asString = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asString).filter(Boolean) : [];
+
+const unique = (items: string[]) => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = item.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Map a model's answer onto one of the options: exact, normalized, letter ("B"), then fuzzy
+const resolveOption = (answer: string, options: string[]): string | null => {
+  if (options.includes(answer)) return answer;
+
+  const normalized = normalizeOptionText(answer);
+  const byNormalized = options.find(o => normalizeOptionText(o) === normalized);
+  if (byNormalized) return byNormalized;
+
+  const letter = answer.trim().match(/^\(?([a-h])[.)]?$/i);
+  if (letter) {
+    const index = letter[1].toLowerCase().charCodeAt(0) - 97;
+    if (options[index]) return options[index];
+  }
+
+  const fuzzy = options.filter(o => isOptionMatch(o, answer));
+  if (fuzzy.length === 1) return fuzzy[0];
+
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const option of options) {
+    const score = tokenSimilarity(option, answer);
+    if (score > bestScore) {
+      best = option;
+      bestScore = score;
+    }
+  }
+  return bestScore >= 0.6 ? best : null;
+};
+
+const checkMultipleChoice = (q: QuizQuestion): CheckResult => {
+  const options = unique(q.options);
+  if (options.length < 2) return { reason: "Multiple choice needs at least 2 distinct options." };
+
+  const answer = resolveOption(q.correctAnswer, options);
+  if (!answer) return { reason: `correctAnswer "${q.correctAnswer}" is not one of the options.` };
+
+  const repaired = answer !== q.correctAnswer || options.length !== q.options.length;
+  return { question: { ...q, options, correctAnswer: answer }, repaired };
+};
+
+const checkTrueFalse = (q: QuizQuestion): CheckResult => {
+  const normalized = normalizeOptionText(q.correctAnswer);
+  let answer: string | null = null;
+  if (['true', 't', 'yes', 'correct'].includes(normalized)) answer = 'True';
+  if (['false', 'f', 'no', 'incorrect'].includes(normalized)) answer = 'False';
+  if (!answer) return { reason: `True/False answer "${q.correctAnswer}" is neither true nor false.` };
+
+  const options = ['True', 'False'];
+  const repaired = answer !== q.correctAnswer || JSON.stringify(options) !== JSON.stringify(q.options);
+  return { question: { ...q, options, correctAnswer: answer }, repaired };
+};
+
+const checkFreeText = (q: QuizQuestion): CheckResult => {
+  if (!q.correctAnswer) return { reason: "Missing correctAnswer." };
+  return { question: { ...q, options: [] }, repaired: q.options.length > 0 };
+};
+
+const checkFillInTheBlank = (q: QuizQuestion): CheckResult => {
+  if (!q.correctAnswer) return { reason: "Missing correctAnswer." };
+
+  let question = q.question;
+  if (!question.includes(BLANK_MARKER)) {
+    // Any run of 3+ underscores is a blank of the wrong length
+    question = question.replace(/_{3,}/g, BLANK_MARKER);
+  }
+  if (!question.includes(BLANK_MARKER)) {
+    // The model sometimes leaves the answer in the sentence; blank it out
+    const escaped = q.correctAnswer.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    question = question.replace(new RegExp(`\\b${escaped}\\b`, 'i'), BLANK_MARKER);
+  }
+  if (!question.includes(BLANK_MARKER)) return { reason: `Question has no "${BLANK_MARKER}" blank.` };
+
+  return { question: { ...q, question, options: [] }, repaired: question !== q.question || q.options.length > 0 };
+};
+
+const checkOrdering = (q: QuizQuestion, raw: any): CheckResult => {
+  const rawItems = asStringList(raw.orderingItems);
+  let items = unique(rawItems);
+  // Dropping trailing steps still leaves a valid sequence
+  if (items.length > 5) items = items.slice(0, 5);
+  if (items.length < 3) return { reason: `Ordering needs 3-5 items, got ${items.length}.` };
+
+  const repaired = items.length !== (Array.isArray(raw.orderingItems) ? raw.orderingItems.length : 0);
+  return { question: { ...q, options: [], orderingItems: items }, repaired };
+};
+
+const checkMatching = (q: QuizQuestion, raw: any): CheckResult => {
+  const rawPairs: any[] = Array.isArray(raw.matchingPairs) ? raw.matchingPairs : [];
+  const seenLeft = new Set<string>();
+  const seenRight = new Set<string>();
+  const pairs: { left: string; right: string }[] = [];
+
+  for (const pair of rawPairs) {
+    const left = asString(pair?.left);
+    const right = asString(pair?.right);
+    if (!left || !right) continue;
+    if (seenLeft.has(left.toLowerCase()) || seenRight.has(right.toLowerCase())) continue;
+    seenLeft.add(left.toLowerCase());
+    seenRight.add(right.toLowerCase());
+    pairs.push({ left, right });
+  }
+
+  if (pairs.length < 4) return { reason: `Matching needs exactly 4 distinct pairs, got ${pairs.length}.` };
+
+  const matchingPairs = pairs.slice(0, 4);
+  return { question: { ...q, options: [], matchingPairs }, repaired: rawPairs.length !== 4 };
+};
+
+// Citations are optional: a malformed one is dropped rather than failing the question
+const readSource = (raw: any): QuestionSource | undefined => {
+  const excerpt = asString(raw?.excerpt).replace(/^["“']+|["”']+$/g, '');
+  if (!excerpt) return undefined;
+  const page = Number(raw?.page);
+  return {
+    excerpt,
+    fileName: asString(raw?.fileName) || undefined,
+    page: Number.isInteger(page) && page > 0 ? page : undefined
+  };
+};
+
+// Alternatives that differ from the answer itself; only typed answers use them
+const readAcceptedAnswers = (raw: unknown, correctAnswer: string): string[] | undefined => {
+  const answers = unique(asStringList(raw))
+    .filter(a => a.toLowerCase() !== correctAnswer.toLowerCase())
+    .slice(0, 5);
+  return answers.length > 0 ? answers : undefined;
+};
+
+const TYPED_ANSWER_TYPES: string[] = [QuestionType.SHORT_ANSWER, QuestionType.FILL_IN_THE_BLANK];
+
+// Question types each mode's prompt asks for; null when any type will do
+export const getAllowedTypes = (mode: QuizMode, settings?: QuizSettings): QuestionType[] | null => {
+  switch (mode) {
+    case 'MULTIPLE_CHOICE': return [QuestionType.MULTIPLE_CHOICE];
+    case 'TRUE_FALSE': return [QuestionType.TRUE_FALSE];
+    case 'SHORT_ANSWER': return [QuestionType.SHORT_ANSWER];
+    case 'FLASHCARD': return [QuestionType.FLASHCARD];
+    case 'FILL_IN_THE_BLANK': return [QuestionType.FILL_IN_THE_BLANK];
+    case 'CONCEPTUAL': return [QuestionType.ORDERING, QuestionType.MATCHING];
+    // Exams and boss fights are answered, not flipped through
+    case 'EXAM':
+    case 'BOSS_BATTLE':
+      return (Object.values(QuestionType) as QuestionType[]).filter(t => t !== QuestionType.FLASHCARD);
+    case 'MIXED': return settings?.allowedTypes?.length ? settings.allowedTypes : null;
+    default: return null;
+  }
+};
+
+// Flashcards and short answers are both a prompt and an answer, so one can stand in for the other
+const INTERCHANGEABLE: Partial<Record<string, QuestionType>> = {
+  [QuestionType.FLASHCARD]: QuestionType.SHORT_ANSWER,
+  [QuestionType.SHORT_ANSWER]: QuestionType.FLASHCARD
+};
+
+const checkQuestion = (raw: any, allowedTypes: QuestionType[] | null): CheckResult => {
+  if (!raw || typeof raw !== 'object') return { reason: "Not an object." };
+
+  let type = asString(raw.type).toUpperCase().replace(/[\s-]+/g, '_');
+  if (!QUESTION_TYPES.includes(type)) return { reason: `Unknown question type "${raw.type}".` };
+
+  let typeRepaired = false;
+  if (allowedTypes && !allowedTypes.includes(type as QuestionType)) {
+    const standIn = INTERCHANGEABLE[type];
+    if (!standIn || !allowedTypes.includes(standIn)) {
+      return { reason: `${type} questions are not allowed in this mode; use ${allowedTypes.join(' or ')}.` };
+    }
+    type = standIn;
+    typeRepaired = true;
+  }
+
+  const text = asString(raw.question);
+  if (!text) return { reason: "Missing question text." };
+
+  const base: QuizQuestion = {
+    id: 0,
+    type: type as QuestionType,
+    question: text,
+    options: asStringList(raw.options),
+    correctAnswer: asString(raw.correctAnswer),
+    explanation: asString(raw.explanation),
+    hint: asString(raw.hint),
+    simpleExplanation: asString(raw.simpleExplanation),
+    searchQuery: asString(raw.searchQuery) || undefined,
+    source: readSource(raw.source)
+  };
+  if (TYPED_ANSWER_TYPES.includes(type)) {
+    base.acceptedAnswers = readAcceptedAnswers(raw.acceptedAnswers, base.correctAnswer);
+  }
+
+  const result = checkByType(base, raw);
+  return typeRepaired && 'question' in result ? { ...result, repaired: true } : result;
+};
+
+const checkByType = (base: QuizQuestion, raw: any): CheckResult => {
+  switch (base.type) {
+    case QuestionType.MULTIPLE_CHOICE: return checkMultipleChoice(base);
+    case QuestionType.TRUE_FALSE: return checkTrueFalse(base);
+    case QuestionType.FILL_IN_THE_BLANK: return checkFillInTheBlank(base);
+    case QuestionType.ORDERING: return checkOrdering(base, raw);
+    case QuestionType.MATCHING: return checkMatching(base, raw);
+    default: return checkFreeText(base);
+  }
+};
+
+// Validate a batch of model output. Valid questions get fresh sequential ids starting at firstId;
+// with allowedTypes (see getAllowedTypes), questions of any other type are repaired or rejected.
+export const validateQuestions = (raw: unknown, firstId: number = 1, allowedTypes: QuestionType[] | null = null): ValidationReport => {
+  const items: unknown[] = Array.isArray(raw) ? raw : [];
+  const report: ValidationReport = { valid: [], rejected: [], repairedCount: 0 };
+
+  for (const item of items) {
+    const result = checkQuestion(item, allowedTypes);
+    if ('reason' in result) {
+      report.rejected.push({ raw: item, type: (item as any)?.type, reason: result.reason });
+      continue;
+    }
+    if (result.repaired) report.repairedCount++;
+    report.valid.push({ ...result.question, id: firstId + report.valid.length });
+  }
+
+  return report;
+};
+
+// Prompt addendum asking the model to replace the questions we had to throw away
+export const buildRepairInstructions = (rejected: RejectedQuestion[]) => {
+  const problems = rejected.map((r, i) => `${i + 1}. ${r.type || 'Unknown type'}: ${r.reason}`).join('\n');
+  return `
+    Some previously generated questions broke the rules:
+    ${problems}
+    Generate exactly ${rejected.length} replacement question(s) of the same type(s), unless the type itself was the problem, on different parts of the content, and follow every rule strictly.
+  `;
+};
@@ -0,0 +1,177 @@
+import { PDFDocument } from "pdf-lib";
+import { StudyContent, InlineFile } from "./aiProvider";
+
+// Splits study material into sections so long documents can be covered evenly:
+// questions are spread across sections by a coverage plan, and summaries are
+// made per section and then merged.
+
+export interface StudySection {
+  index: number;
+  label: string;
+  content: StudyContent;
+  instructions: string; // Tells the model which part of the content to use
+  weight: number;       // Rough size, in characters
+}
+
+const MAX_SECTION_CHARS = 6000;
+const PAGES_PER_SECTION = 10;
+const CHARS_PER_PAGE = 2000;
+const IMAGE_WEIGHT = 1500;
+// Notes shorter than this next to attached files are treated as instructions, not material
+const MIN_NOTES_SECTION_CHARS = 500;
+
+// Best-effort page count from the raw PDF bytes, for PDFs pdf-lib can't open.
+// Returns 0 when the page tree is compressed.
+export const countPdfPages = (base64: string): number => {
+  let raw: string;
+  try {
+    raw = atob(base64);
+  } catch {
+    return 0;
+  }
+  const pageObjects = raw.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length || 0;
+  let declared = 0;
+  for (const match of raw.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)/g)) {
+    declared = Math.max(declared, Number(match[1]));
+  }
+  return Math.max(pageObjects, declared);
+};
+
+// Split text at paragraph boundaries into chunks of at most maxChars
+export const splitText = (text: string, maxChars: number = MAX_SECTION_CHARS): string[] => {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    if (paragraph.length > maxChars) {
+      // A single huge paragraph: cut it at sentence ends
+      const sentences = paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph];
+      for (const sentence of sentences) {
+        if (current && current.length + sentence.length > maxChars) {
+          chunks.push(current.trim());
+          current = '';
+        }
+        current += sentence;
+      }
+      continue;
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+};
+
+const labelFromText = (chunk: string, fallback: string) => {
+  const firstLine = chunk.split('\n')[0].trim();
+  return firstLine.length > 0 && firstLine.length <= 60 ? firstLine : fallback;
+};
+
+// Null when the file can't be split (e.g. it's encrypted or damaged)
+const loadPdf = async (base64: string): Promise<PDFDocument | null> => {
+  try {
+    return await PDFDocument.load(base64, { updateMetadata: false });
+  } catch {
+    return null;
+  }
+};
+
+// Pages start to end (1-based) as a PDF of their own, so a request uploads only its part
+const extractPages = async (source: PDFDocument, start: number, end: number): Promise<string> => {
+  const part = await PDFDocument.create();
+  const indexes = Array.from({ length: end - start + 1 }, (_, i) => start - 1 + i);
+  (await part.copyPages(source, indexes)).forEach(page => part.addPage(page));
+  return part.saveAsBase64();
+};
+
+const fileSections = async (file: InlineFile, context: string): Promise<Omit<StudySection, 'index'>[]> => {
+  const contextText = context ? `Context from the student: ${context}` : '';
+
+  if (file.mimeType !== 'application/pdf') {
+    return [{
+      label: file.name,
+      content: { text: contextText, files: [file] },
+      instructions: `Use only the attached file "${file.name}".`,
+      weight: IMAGE_WEIGHT
+    }];
+  }
+
+  const pdf = await loadPdf(file.data);
+  const pages = pdf ? pdf.getPageCount() : countPdfPages(file.data);
+  if (!pdf || pages <= PAGES_PER_SECTION) {
+    return [{
+      label: file.name,
+      content: { text: contextText, files: [file] },
+      instructions: pages > 0
+        ? `Use the whole attached document "${file.name}" (${pages} pages), spreading questions from the first page to the last.`
+        : `Use the whole attached document "${file.name}", spreading questions evenly from the first page to the last.`,
+      weight: Math.max(pages, 1) * CHARS_PER_PAGE
+    }];
+  }
+
+  const sections: Omit<StudySection, 'index'>[] = [];
+  for (let start = 1; start <= pages; start += PAGES_PER_SECTION) {
+    const end = Math.min(start + PAGES_PER_SECTION - 1, pages);
+    sections.push({
+      label: `${file.name} p.${start}-${end}`,
+      content: { text: contextText, files: [{ ...file, data: await extractPages(pdf, start, end) }] },
+      instructions: `The attached file is pages ${start} to ${end} of the ${pages}-page document "${file.name}". When citing a page, use its number in the full document (the first attached page is page ${start}).`,
+      weight: (end - start + 1) * CHARS_PER_PAGE
+    });
+  }
+  return sections;
+};
+
+export const buildSections = async (content: StudyContent): Promise<StudySection[]> => {
+  const text = content.text.trim();
+  const notesAreContext = content.files.length > 0 && text.length < MIN_NOTES_SECTION_CHARS;
+  const sections: Omit<StudySection, 'index'>[] = [];
+
+  if (text && !notesAreContext) {
+    const chunks = splitText(text);
+    chunks.forEach((chunk, i) => {
+      sections.push({
+        label: labelFromText(chunk, `Notes part ${i + 1}`),
+        content: { text: chunk, files: [] },
+        instructions: chunks.length > 1 ? `These notes are part ${i + 1} of ${chunks.length} of the student's notes.` : '',
+        weight: chunk.length
+      });
+    });
+  }
+
+  for (const file of content.files) {
+    sections.push(...await fileSections(file, notesAreContext ? text : ''));
+  }
+
+  if (sections.length === 0) {
+    sections.push({ label: 'Notes', content, instructions: '', weight: 1 });
+  }
+
+  return sections.map((section, index) => ({ ...section, index }));
+};
+
+// How many questions each section gets. Question k is placed at the middle of
+// the k-th equal slice of the whole document, so coverage stays even whether
+// there are more questions than sections or fewer.
+export const planCoverage = (sections: StudySection[], count: number): number[] => {
+  const allocation = sections.map(() => 0);
+  const total = sections.reduce((acc, s) => acc + s.weight, 0);
+  if (total <= 0 || sections.length === 0) return allocation;
+
+  for (let k = 0; k < count; k++) {
+    const target = ((k + 0.5) / count) * total;
+    let cumulative = 0;
+    for (let i = 0; i < sections.length; i++) {
+      cumulative += sections[i].weight;
+      if (target < cumulative || i === sections.length - 1) {
+        allocation[i]++;
+        break;
+      }
+    }
+  }
+  return allocation;
+};
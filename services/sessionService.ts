@@ -0,0 +1,77 @@
+import { QuizCheckpoint, QuizProgress } from '../types';
+import { getSetting, saveSetting, deleteSetting } from './dataStore';
+
+// Checkpoint of the quiz in progress, one per user, so it can be resumed after
+// a refresh or an accidental exit. It's kept in three parts so the frequent
+// writes stay small: the questions (when a batch arrives), the progress (on each
+// answer and move) and the timer (every few seconds while it runs).
+
+export type CheckpointQuiz = Omit<QuizCheckpoint, 'progress' | 'savedAt'>;
+
+interface ProgressRecord {
+  progress: QuizProgress;
+  savedAt: number;
+}
+
+interface TimerRecord {
+  timeLeft: number;
+  elapsedMs: number;
+  savedAt: number;
+}
+
+const QUIZ_KEY = 'checkpoint';
+const PROGRESS_KEY = 'checkpointProgress';
+const TIMER_KEY = 'checkpointTimer';
+
+// Where checkpoints lived before they moved to the local database
+const LEGACY_PREFIX = 'gdg_app_session_';
+
+// Older sessions aren't worth offering back
+const MAX_CHECKPOINT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const saveCheckpointQuiz = (userId: string, quiz: CheckpointQuiz) => {
+  saveSetting(userId, QUIZ_KEY, quiz);
+};
+
+export const saveCheckpointProgress = (userId: string, progress: QuizProgress) => {
+  saveSetting<ProgressRecord>(userId, PROGRESS_KEY, { progress, savedAt: Date.now() });
+};
+
+export const saveCheckpointTimer = (userId: string, timeLeft: number, elapsedMs: number) => {
+  saveSetting<TimerRecord>(userId, TIMER_KEY, { timeLeft, elapsedMs, savedAt: Date.now() });
+};
+
+const importLegacyCheckpoint = (userId: string) => {
+  const raw = localStorage.getItem(LEGACY_PREFIX + userId);
+  if (raw === null) return;
+  localStorage.removeItem(LEGACY_PREFIX + userId);
+  try {
+    const { progress, savedAt, ...quiz }: QuizCheckpoint = JSON.parse(raw);
+    saveCheckpointQuiz(userId, quiz);
+    saveSetting<ProgressRecord>(userId, PROGRESS_KEY, { progress, savedAt });
+  } catch {
+    // Unreadable: nothing to offer back
+  }
+};
+
+export const getCheckpoint = (userId: string): QuizCheckpoint | null => {
+  importLegacyCheckpoint(userId);
+  const quiz = getSetting<CheckpointQuiz>(userId, QUIZ_KEY);
+  const saved = getSetting<ProgressRecord>(userId, PROGRESS_KEY);
+  if (!quiz?.questions?.length || !saved || Date.now() - saved.savedAt > MAX_CHECKPOINT_AGE_MS) {
+    if (quiz || saved) clearCheckpoint(userId);
+    return null;
+  }
+
+  // The timer is saved more often than the rest, so it may be further along
+  const timer = getSetting<TimerRecord>(userId, TIMER_KEY);
+  const progress = timer && timer.savedAt > saved.savedAt
+    ? { ...saved.progress, timeLeft: timer.timeLeft, elapsedMs: timer.elapsedMs }
+    : saved.progress;
+  return { ...quiz, progress, savedAt: Math.max(saved.savedAt, timer?.savedAt ?? 0) };
+};
+
+export const clearCheckpoint = (userId: string) => {
+  [QUIZ_KEY, PROGRESS_KEY, TIMER_KEY].forEach(key => deleteSetting(userId, key));
+  localStorage.removeItem(LEGACY_PREFIX + userId);
+};
@@ -0,0 +1,103 @@
+import { QuizQuestion, ReviewCard, ReviewGrade, Confidence } from '../types';
+import { getDeck, saveDeck as storeDeck } from './dataStore';
+
+// Spaced repetition (SM-2). Every graded answer updates the question's card;
+// cards come back for review when they fall due.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DEFAULT_SESSION_SIZE = 20;
+
+// FNV-1a, enough to tell questions apart within one user's deck
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export const getCardId = (question: QuizQuestion) =>
+  hashString(`${question.type}:${question.question.trim().toLowerCase().replace(/\s+/g, ' ')}`);
+
+// Map an answer's credit (0..1) onto an SM-2 grade. Confidence sharpens it:
+// a lucky guess isn't a solid recall, and a sure answer that was wrong is a full blackout.
+export const gradeFromScore = (score: number, timedOut: boolean = false, confidence?: Confidence): ReviewGrade => {
+  if (timedOut) return 0;
+  if (score >= 1) return confidence === 'SURE' ? 5 : confidence === 'GUESS' ? 3 : 4;
+  if (confidence === 'SURE' && score < 0.5) return 0;
+  if (score >= 0.5) return 3;
+  if (score > 0) return 2;
+  return 1;
+};
+
+// Flashcards are self-graded: "Got it" is a confident recall, "Review" a miss
+export const gradeFromFlashcard = (gotIt: boolean): ReviewGrade => gotIt ? 4 : 1;
+
+export const scheduleCard = (card: ReviewCard, grade: ReviewGrade, now: number = Date.now()): ReviewCard => {
+  let { ease, interval, repetitions, lapses } = card;
+
+  if (grade < 3) {
+    // Forgotten: start the interval ladder again, tomorrow
+    repetitions = 0;
+    interval = 1;
+    lapses += 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(interval * ease);
+  }
+  ease = Math.max(MIN_EASE, ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  return { ...card, ease, interval, repetitions, lapses, due: now + interval * DAY_MS, lastReviewed: now };
+};
+
+const newCard = (question: QuizQuestion, topic: string, now: number): ReviewCard => ({
+  id: getCardId(question),
+  question,
+  topic,
+  ease: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now,
+  lastReviewed: 0
+});
+
+const loadDeck = (userId: string): Record<string, ReviewCard> =>
+  ({ ...getDeck<Record<string, ReviewCard>>(userId, 'srs') });
+
+const saveDeck = (userId: string, deck: Record<string, ReviewCard>) => {
+  storeDeck(userId, 'srs', deck);
+};
+
+export const recordReview = (userId: string, question: QuizQuestion, topic: string, grade: ReviewGrade, confidentMiss: boolean = false): ReviewCard => {
+  const deck = loadDeck(userId);
+  const now = Date.now();
+  const id = getCardId(question);
+  const existing = deck[id] || newCard(question, topic, now);
+  // Keep the latest explanation and citation; session ids mean nothing across sessions
+  const updated = scheduleCard({ ...existing, question: { ...question, id: 0 }, confidentMiss }, grade, now);
+  deck[id] = updated;
+  saveDeck(userId, deck);
+  return updated;
+};
+
+export const getReviewCards = (userId: string): ReviewCard[] => Object.values(loadDeck(userId));
+
+export const getDueCards = (userId: string, now: number = Date.now(), limit: number = DEFAULT_SESSION_SIZE): ReviewCard[] =>
+  getReviewCards(userId)
+    .filter(card => card.due <= now)
+    // Confidently wrong answers are the top priority, then the longest overdue
+    .sort((a, b) => Number(!!b.confidentMiss) - Number(!!a.confidentMiss) || a.due - b.due)
+    .slice(0, limit);
+
+export const countDueCards = (userId: string, now: number = Date.now()): number =>
+  getReviewCards(userId).filter(card => card.due <= now).length;
+
+// Turn due cards into a quiz session, with ids QuizView can use
+export const buildReviewSession = (cards: ReviewCard[]): QuizQuestion[] =>
+  cards.map((card, i) => ({ ...card.question, id: i + 1 }));
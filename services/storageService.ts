@@ -1,9 +1,15 @@
 
-import { UserProfile, QuizHistoryItem, UserStats, AIPersonality } from '../types';
-
-const USERS_KEY = 'gdg_app_users';
-const CURRENT_USER_KEY = 'gdg_app_current_user';
-const HISTORY_PREFIX = 'gdg_app_history_';
+import { UserProfile, QuizHistoryItem, UserStats, AIPersonality, Account, AuthSession } from '../types';
+import { verifyPassword, getPasswordProblems } from './passwordService';
+import { AuthError } from './authErrors';
+import { authClient } from './authClient';
+import { openDataStore, loadUserData, getUserRecords, saveUserRecord, getHistory, addHistoryItem, moveUserData, deleteUserData } from './dataStore';
+import { initSync, recordStudySession, recordHistoryItem } from './syncService';
+import { clearCheckpoint } from './sessionService';
+import { clearUserCache } from './quizCache';
+
+const CURRENT_USER_KEY = 'gdg_app_current_user'; // No longer written; cleared on startup
+const LAST_USER_KEY = 'gdg_app_last_user'; // Whose session the refresh token belongs to, for offline starts
 
 // Initial Stats
 const initialStats: UserStats = {
@@ -15,145 +21,195 @@ const initialStats: UserStats = {
   unlockedPersonas: [AIPersonality.PROFESSOR] // Default unlock
 };
 
-// Mock Auth
-export const registerUser = (name: string, email: string, password: string): UserProfile => {
-  const usersStr = localStorage.getItem(USERS_KEY);
-  const users: any[] = usersStr ? JSON.parse(usersStr) : [];
+// Sign-in goes through the auth server; the profiles saved on this device
+// (see dataStore) carry the stats, which syncService keeps in step across devices.
+
+// Signed-in user for this page load, only ever set from a server session
+let currentUser: UserProfile | null = null;
+
+// Server account details, with the stats this device has for it
+const toProfile = (account: Account): UserProfile => {
+  const local = getUserRecords().find(u => u.id === account.id);
+  return {
+    id: account.id,
+    name: account.name,
+    email: account.email,
+    avatarSeed: account.avatarSeed,
+    emailVerified: account.emailVerified,
+    stats: local?.stats || { ...initialStats } // Backfill if missing
+  };
+};
+
+// Save the profile locally, dropping any password the old local sign-in kept
+const rememberProfile = (profile: UserProfile) => {
+  saveUserRecord(profile);
+};
+
+// Loads the user's data before handing back the profile, so reads after sign-in never come up empty
+const openSession = async (account: Account): Promise<UserProfile> => {
+  await loadUserData(account.id);
+  const profile = toProfile(account);
+  currentUser = { ...profile, stats: initSync(profile.id, profile.stats) };
+  rememberProfile(currentUser);
+  localStorage.setItem(LAST_USER_KEY, profile.id);
+  return currentUser;
+};
 
-  if (users.find((u: any) => u.email === email)) {
-    throw new Error('User already exists');
+const startSession = (session: AuthSession) => openSession(session.account);
+
+// The server can't be reached to renew the session, but the refresh token is
+// still there: carry on as the user it belongs to, from what this device has.
+// Changes wait in the sync outbox until the session can be renewed.
+const startOfflineSession = async (): Promise<UserProfile | null> => {
+  const userId = localStorage.getItem(LAST_USER_KEY);
+  if (!userId) return null;
+  await openDataStore();
+  const local = getUserRecords().find(u => u.id === userId);
+  if (!local) return null;
+  return openSession({
+    id: local.id,
+    name: local.name,
+    email: local.email,
+    avatarSeed: local.avatarSeed,
+    emailVerified: !!local.emailVerified
+  });
+};
+
+export const registerUser = async (name: string, email: string, password: string): Promise<UserProfile> => {
+  const problems = getPasswordProblems(password);
+  if (problems.length > 0) {
+    throw new AuthError('WEAK_PASSWORD', `Password needs: ${problems.join(', ').toLowerCase()}.`);
   }
+  return startSession(await authClient.register(name, email, password));
+};
 
-  const newUser: UserProfile = {
-    id: email,
-    name,
-    email,
-    avatarSeed: name + Math.random().toString(36).substring(7),
-    stats: { ...initialStats }
-  };
+// An account that only exists on this device moves to the server with the same
+// id, so its history and stats stay attached
+const migrateLocalAccount = async (email: string, password: string): Promise<UserProfile | null> => {
+  await openDataStore();
+  const legacy = getUserRecords().find(u => u.email === email && (u.passwordHash || u.password !== undefined));
+  if (!legacy) return null;
+  const matches = legacy.passwordHash
+    ? await verifyPassword(password, legacy.passwordHash)
+    : legacy.password === password;
+  if (!matches) return null;
+
+  try {
+    return startSession(await authClient.register(legacy.name, email, password, legacy.avatarSeed));
+  } catch (e) {
+    // Someone else already has this email on the server: the password just didn't match theirs
+    if (e instanceof AuthError && e.code === 'EMAIL_TAKEN') return null;
+    if (e instanceof AuthError && e.code === 'WEAK_PASSWORD') {
+      throw new AuthError('WEAK_PASSWORD', 'Your password no longer meets the rules. Sign up again with this email and a stronger password to keep your progress.');
+    }
+    throw e;
+  }
+};
 
-  // In a real app, hash the password. Here we store the object + password (mock).
-  const userRecord = { ...newUser, password };
-  users.push(userRecord);
-  localStorage.setItem(USERS_KEY, JSON.stringify(users));
-  
-  // Auto login
-  localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(newUser));
-  return newUser;
-};
-
-export const loginUser = (email: string, password: string): UserProfile => {
-  const usersStr = localStorage.getItem(USERS_KEY);
-  const users: any[] = usersStr ? JSON.parse(usersStr) : [];
-  
-  const user = users.find((u: any) => u.email === email && u.password === password);
-  if (!user) {
-    throw new Error('Invalid credentials');
+export const loginUser = async (email: string, password: string): Promise<UserProfile> => {
+  try {
+    return startSession(await authClient.login(email, password));
+  } catch (e) {
+    if (!(e instanceof AuthError && e.code === 'INVALID_CREDENTIALS')) throw e;
+    const migrated = await migrateLocalAccount(email, password);
+    if (!migrated) throw e;
+    return migrated;
   }
+};
 
-  const profile: UserProfile = {
-    id: user.id,
-    name: user.name,
-    email: user.email,
-    avatarSeed: user.avatarSeed,
-    stats: user.stats || { ...initialStats } // Backfill if missing
-  };
-  
-  localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(profile));
-  return profile;
+export const logoutUser = async () => {
+  currentUser = null;
+  localStorage.removeItem(LAST_USER_KEY);
+  await authClient.logout();
 };
 
-export const logoutUser = () => {
+// Sign back in from the stored refresh token, if there is one
+export const restoreSession = async (): Promise<UserProfile | null> => {
+  // Profiles used to be trusted straight from storage
   localStorage.removeItem(CURRENT_USER_KEY);
+  try {
+    const session = await authClient.restore();
+    return session ? startSession(session) : null;
+  } catch (e) {
+    if (!(e instanceof AuthError && e.code === 'NETWORK')) throw e;
+    const offline = await startOfflineSession();
+    if (!offline) throw e;
+    return offline;
+  }
 };
 
-export const getCurrentUser = (): UserProfile | null => {
-  const userStr = localStorage.getItem(CURRENT_USER_KEY);
-  return userStr ? JSON.parse(userStr) : null;
-};
+export const getCurrentUser = (): UserProfile | null => currentUser;
 
 export const updateUserProfile = (user: UserProfile) => {
-  // Update current session
-  localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(user));
-
-  // Update in DB
-  const usersStr = localStorage.getItem(USERS_KEY);
-  if (usersStr) {
-    let users = JSON.parse(usersStr);
-    users = users.map((u: any) => u.id === user.id ? { ...u, ...user } : u);
-    localStorage.setItem(USERS_KEY, JSON.stringify(users));
+  const previous = currentUser;
+  currentUser = user;
+  rememberProfile(user);
+
+  // Name and avatar follow the account to other devices
+  if (previous && (previous.name !== user.name || previous.avatarSeed !== user.avatarSeed)) {
+    authClient.updateProfile(user.name, user.avatarSeed).catch(e => console.warn('Could not save profile to the server', e));
   }
 };
 
-// History
-export const saveQuizHistory = (userId: string, item: QuizHistoryItem) => {
-  const key = HISTORY_PREFIX + userId;
-  const historyStr = localStorage.getItem(key);
-  const history: QuizHistoryItem[] = historyStr ? JSON.parse(historyStr) : [];
-  
-  // Add to beginning
-  history.unshift(item);
-  
-  localStorage.setItem(key, JSON.stringify(history));
+export const changePassword = async (currentPassword: string, newPassword: string) => {
+  const problems = getPasswordProblems(newPassword);
+  if (problems.length > 0) {
+    throw new AuthError('WEAK_PASSWORD', `Password needs: ${problems.join(', ').toLowerCase()}.`);
+  }
+  await authClient.changePassword(currentPassword, newPassword);
 };
 
-export const getQuizHistory = (userId: string): QuizHistoryItem[] => {
-  const key = HISTORY_PREFIX + userId;
-  const historyStr = localStorage.getItem(key);
-  return historyStr ? JSON.parse(historyStr) : [];
+// The id is the email, so everything saved under the old one moves to the new one
+export const changeEmail = async (password: string, newEmail: string): Promise<UserProfile> => {
+  const previous = currentUser;
+  const session = await authClient.changeEmail(password, newEmail);
+  if (previous && previous.id !== session.account.id) {
+    await moveUserData(previous.id, session.account.id);
+  }
+  return startSession(session);
 };
 
-// Stats Logic
-export const updateUserStats = (user: UserProfile, minutesToAdd: number, xpToAdd: number): UserProfile => {
-    const currentStats = user.stats || { ...initialStats };
-    const now = Date.now();
-    
-    // Streak Logic
-    let newStreak = currentStats.streakDays;
-    if (currentStats.lastStudyDate === 0) {
-        newStreak = 1;
-    } else {
-        const lastDate = new Date(currentStats.lastStudyDate);
-        const currentDate = new Date(now);
-        const diffTime = Math.abs(currentDate.getTime() - lastDate.getTime());
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-        
-        // If studied yesterday, increment. If today, same. If missed a day, reset.
-        // Simplified check:
-        const isSameDay = lastDate.getDate() === currentDate.getDate() && lastDate.getMonth() === currentDate.getMonth();
-        if (!isSameDay) {
-            if (diffDays <= 2) { // Allow ~48h window to keep streak
-                newStreak += 1;
-            } else {
-                newStreak = 1;
-            }
-        }
-    }
+export const deleteAccount = async (password: string) => {
+  const userId = currentUser?.id;
+  await authClient.deleteAccount(password);
+  if (userId) {
+    clearCheckpoint(userId); // Also drops one still in localStorage from before the move
+    await deleteUserData(userId);
+    // Cached quizzes and summaries are built from the user's notes
+    await clearUserCache(userId);
+  }
+  currentUser = null;
+  localStorage.removeItem(LAST_USER_KEY);
+};
 
-    // Persona Unlocks
-    const newUnlocked = [...currentStats.unlockedPersonas];
-    const totalMins = currentStats.totalMinutesStudied + minutesToAdd;
-    
-    if (totalMins >= 10 && !newUnlocked.includes(AIPersonality.COACH)) {
-        newUnlocked.push(AIPersonality.COACH);
-    }
-    if (totalMins >= 30 && !newUnlocked.includes(AIPersonality.BUDDY)) {
-        newUnlocked.push(AIPersonality.BUDDY);
-    }
-    if (totalMins >= 60 && !newUnlocked.includes(AIPersonality.SOCRATIC)) {
-        newUnlocked.push(AIPersonality.SOCRATIC);
-    }
+export const sendVerificationEmail = () => authClient.requestEmailVerification();
 
-    const newStats: UserStats = {
-        totalMinutesStudied: totalMins,
-        quizzesCompleted: currentStats.quizzesCompleted + 1,
-        totalXp: currentStats.totalXp + xpToAdd,
-        streakDays: newStreak,
-        lastStudyDate: now,
-        unlockedPersonas: newUnlocked
-    };
+export const verifyEmail = async (token: string): Promise<UserProfile | null> => {
+  const account = await authClient.verifyEmail(token);
+  if (currentUser?.id !== account.id) return null;
+  updateUserProfile({ ...currentUser, emailVerified: true });
+  return currentUser;
+};
+
+// History
+export const saveQuizHistory = (userId: string, item: QuizHistoryItem) => {
+  addHistoryItem(userId, item);
+  recordHistoryItem(userId, item);
+};
 
-    const updatedUser = { ...user, stats: newStats };
+// Newest first
+export const getQuizHistory = (userId: string): QuizHistoryItem[] => [...getHistory(userId)];
+
+// Stats Logic: the streak and persona unlocks are worked out from the synced totals
+export const updateUserStats = (user: UserProfile, minutesToAdd: number, xpToAdd: number): UserProfile => {
+    const updatedUser = { ...user, stats: recordStudySession(user.id, minutesToAdd, xpToAdd) };
     updateUserProfile(updatedUser);
     return updatedUser;
 };
+
+// Stats merged in from the user's other devices; null if they've signed out since
+export const applySyncedStats = (userId: string, stats: UserStats): UserProfile | null => {
+    if (currentUser?.id !== userId) return null;
+    updateUserProfile({ ...currentUser, stats });
+    return currentUser;
+};
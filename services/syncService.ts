@@ -0,0 +1,336 @@
+import { AIPersonality, QuizHistoryItem, SyncChange, SyncCounter, SyncResponse, UserStats } from '../types';
+import { authClient } from './authClient';
+import { getDeviceId, getSetting, saveSetting, getHistory, mergeHistory, getOutbox, queueChanges, removeFromOutbox } from './dataStore';
+
+// Offline-first sync of stats and history between a user's devices. Changes are
+// recorded in a local outbox first, then pushed to the server when it can be
+// reached, and changes from the user's other devices are pulled back and merged.
+//
+// Merging never depends on the order changes arrive in:
+// - counters are kept per writer (each tab of each device) and summed; a writer's
+//   own totals only grow, so for each writer the highest one seen wins
+// - study days and history entries are only ever added, so they merge as unions
+// - the streak and unlocked personas are worked out from the merged data
+
+const SYNC_STATE_KEY = 'sync';
+const REJECTED_KEY = 'syncRejected';
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+const SYNC_DELAY_MS = 2000; // Changes made together go out in one request
+const VISIBLE_SYNC_GAP_MS = 60 * 1000; // Flicking between tabs doesn't sync every time
+const PUSH_BATCH_SIZE = 100;
+const PUSH_BATCH_BYTES = 2 * 1024 * 1024; // History entries carry whole quizzes; the server takes 20 MB a request
+const MAX_REJECTED = 50;
+
+const COUNTERS: SyncCounter[] = ['totalMinutesStudied', 'quizzesCompleted', 'totalXp'];
+
+// Minutes of study it takes to unlock each persona; the Professor is always there
+const PERSONA_UNLOCKS: [AIPersonality, number][] = [
+  [AIPersonality.COACH, 10],
+  [AIPersonality.BUDDY, 30],
+  [AIPersonality.SOCRATIC, 60]
+];
+
+interface SyncState {
+  cursor: number; // Last server change this device has seen
+  counters: Record<SyncCounter, Record<string, number>>; // Writer id -> that writer's running total
+  studyDays: string[];
+  lastStudyDate: number;
+}
+
+export interface SyncResult {
+  stats: UserStats;
+  statsChanged: boolean;
+  historyChanged: boolean;
+}
+
+const newChangeId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+
+// Tabs share the device id and each keeps its own copy of the state, so two tabs
+// counting under one key would each overwrite the other's total. Every page load
+// writes under its own id instead; the server relays changes between them like
+// between devices.
+const TAB_ID = Math.random().toString(36).substring(2, 10);
+const getWriterId = () => `${getDeviceId()}.${TAB_ID}`;
+
+const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const previousDay = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return toDayKey(new Date(year, month - 1, date - 1));
+};
+
+// Consecutive days, ending with the last day studied
+const countStreak = (days: string[]) => {
+  const studied = new Set(days);
+  let day = [...studied].sort().pop();
+  let streak = 0;
+  while (day && studied.has(day)) {
+    streak++;
+    day = previousDay(day);
+  }
+  return streak;
+};
+
+const sum = (byDevice: Record<string, number>) => Object.values(byDevice).reduce((total, n) => total + n, 0);
+
+export const deriveStats = (state: SyncState): UserStats => {
+  const totalMinutesStudied = sum(state.counters.totalMinutesStudied);
+  return {
+    totalMinutesStudied,
+    quizzesCompleted: sum(state.counters.quizzesCompleted),
+    totalXp: sum(state.counters.totalXp),
+    streakDays: countStreak(state.studyDays),
+    lastStudyDate: state.lastStudyDate,
+    unlockedPersonas: [
+      AIPersonality.PROFESSOR,
+      ...PERSONA_UNLOCKS.filter(([, minutes]) => totalMinutesStudied >= minutes).map(([persona]) => persona)
+    ]
+  };
+};
+
+const loadState = (userId: string): SyncState | undefined => getSetting<SyncState>(userId, SYNC_STATE_KEY);
+
+const saveState = (userId: string, state: SyncState) => saveSetting(userId, SYNC_STATE_KEY, state);
+
+const change = <T extends SyncChange['type']>(type: T, fields: Omit<Extract<SyncChange, { type: T }>, 'id' | 'deviceId' | 'createdAt' | 'type'>) =>
+  ({ id: newChangeId(), deviceId: getWriterId(), createdAt: Date.now(), type, ...fields }) as Extract<SyncChange, { type: T }>;
+
+const countersChange = (state: SyncState) => {
+  const writerId = getWriterId();
+  const totals = Object.fromEntries(COUNTERS.map(field => [field, state.counters[field][writerId] || 0])) as Record<SyncCounter, number>;
+  return change('counters', { totals });
+};
+
+// The first time a user is seen on this device, whatever it already has counts
+// as this device's share and is queued for the server. Returns the stats to show.
+export const initSync = (userId: string, stats?: UserStats): UserStats => {
+  const existing = loadState(userId);
+  if (existing) return deriveStats(existing);
+
+  const writerId = getWriterId();
+  const state: SyncState = {
+    cursor: 0,
+    counters: { totalMinutesStudied: {}, quizzesCompleted: {}, totalXp: {} },
+    studyDays: [],
+    lastStudyDate: stats?.lastStudyDate || 0
+  };
+  const changes: SyncChange[] = [];
+
+  if (stats) {
+    COUNTERS.forEach(field => { state.counters[field][writerId] = stats[field] || 0; });
+    changes.push(countersChange(state));
+    // Only the length of the streak was kept, so rebuild its days
+    if (stats.lastStudyDate) {
+      let day = toDayKey(new Date(stats.lastStudyDate));
+      for (let i = 0; i < Math.max(stats.streakDays, 1); i++) {
+        state.studyDays.push(day);
+        changes.push(change('study', { day, at: stats.lastStudyDate }));
+        day = previousDay(day);
+      }
+    }
+  }
+  // Oldest first, like they happened
+  [...getHistory(userId)].reverse().forEach(item => changes.push(change('history', { item })));
+
+  saveState(userId, state);
+  if (changes.length > 0) queueChanges(userId, changes);
+  return deriveStats(state);
+};
+
+// Sessions ask for a sync soon after something changes; see startSync
+let requestSync: (() => void) | null = null;
+
+export const recordStudySession = (userId: string, minutes: number, xp: number): UserStats => {
+  const current = loadState(userId);
+  if (!current) throw new Error('initSync must run before progress is recorded');
+
+  const writerId = getWriterId();
+  const now = Date.now();
+  const day = toDayKey(new Date(now));
+  const added: Record<SyncCounter, number> = { totalMinutesStudied: minutes, quizzesCompleted: 1, totalXp: xp };
+  const state: SyncState = {
+    ...current,
+    counters: Object.fromEntries(COUNTERS.map(field => [
+      field,
+      { ...current.counters[field], [writerId]: (current.counters[field][writerId] || 0) + added[field] }
+    ])) as SyncState['counters'],
+    studyDays: current.studyDays.includes(day) ? current.studyDays : [...current.studyDays, day],
+    lastStudyDate: Math.max(current.lastStudyDate, now)
+  };
+
+  saveState(userId, state);
+  queueChanges(userId, [countersChange(state), change('study', { day, at: now })]);
+  requestSync?.();
+  return deriveStats(state);
+};
+
+export const recordHistoryItem = (userId: string, item: QuizHistoryItem) => {
+  queueChanges(userId, [change('history', { item })]);
+  requestSync?.();
+};
+
+// Folds changes from other devices into the state; history goes straight to the store
+const applyChanges = (userId: string, state: SyncState, changes: SyncChange[]) => {
+  const next: SyncState = {
+    ...state,
+    counters: Object.fromEntries(COUNTERS.map(field => [field, { ...state.counters[field] }])) as SyncState['counters'],
+    studyDays: [...state.studyDays]
+  };
+  const history: QuizHistoryItem[] = [];
+
+  changes.forEach(c => {
+    switch (c.type) {
+      case 'counters':
+        COUNTERS.forEach(field => {
+          next.counters[field][c.deviceId] = Math.max(next.counters[field][c.deviceId] || 0, c.totals[field] || 0);
+        });
+        break;
+      case 'study':
+        if (!next.studyDays.includes(c.day)) next.studyDays.push(c.day);
+        next.lastStudyDate = Math.max(next.lastStudyDate, c.at);
+        break;
+      case 'history':
+        history.push(c.item);
+        break;
+    }
+  });
+
+  return { state: next, historyAdded: mergeHistory(userId, history) };
+};
+
+class SyncRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SyncRequestError';
+  }
+}
+
+// The server turned the changes down, and would again however often they were sent
+const isRejected = (e: unknown) => e instanceof SyncRequestError && (e.status === 400 || e.status === 413);
+
+const post = async (body: unknown, accessToken: string): Promise<SyncResponse> => {
+  const response = await fetch('/api/sync', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw new SyncRequestError(data?.error || `Sync failed (${response.status}).`, response.status);
+  return data as SyncResponse;
+};
+
+// The oldest changes that fit in one request; always at least one, so a big one still goes
+const takeBatch = (outbox: SyncChange[]) => {
+  const batch: SyncChange[] = [];
+  let bytes = 0;
+  for (const c of outbox.slice(0, PUSH_BATCH_SIZE)) {
+    bytes += JSON.stringify(c).length;
+    if (batch.length > 0 && bytes > PUSH_BATCH_BYTES) break;
+    batch.push(c);
+  }
+  return batch;
+};
+
+// Kept aside rather than dropped, so a bad change can still be looked into
+const setAside = (userId: string, rejected: SyncChange, error: string) => {
+  const kept = getSetting<{ change: SyncChange; error: string; at: number }[]>(userId, REJECTED_KEY) || [];
+  saveSetting(userId, REJECTED_KEY, [...kept, { change: rejected, error, at: Date.now() }].slice(-MAX_REJECTED));
+  removeFromOutbox(userId, [rejected.id]);
+};
+
+const runSync = async (userId: string): Promise<SyncResult | null> => {
+  let statsChanged = false;
+  let historyChanged = false;
+  let singles = 0; // After a batch is turned down, its changes go one at a time to find the bad one
+
+  for (;;) {
+    const accessToken = await authClient.getAccessToken();
+    const before = loadState(userId);
+    if (!accessToken || !before) return null; // Signed out, or offline since the refresh failed
+
+    const outbox = getOutbox(userId);
+    const batch = singles > 0 ? outbox.slice(0, 1) : takeBatch(outbox);
+    let response: SyncResponse;
+    try {
+      // As the writer, so changes from this device's other tabs come back too
+      response = await post({ deviceId: getWriterId(), cursor: before.cursor, changes: batch }, accessToken);
+    } catch (e) {
+      if (!isRejected(e) || batch.length === 0) throw e;
+      if (batch.length > 1) {
+        singles = batch.length;
+      } else {
+        console.warn('Sync change rejected; set aside', e);
+        setAside(userId, batch[0], (e as Error).message);
+        singles--;
+      }
+      continue;
+    }
+    removeFromOutbox(userId, batch.map(c => c.id));
+    singles = Math.max(singles - 1, 0);
+
+    // Re-read: a quiz may have finished while the request was out
+    const current = loadState(userId)!;
+    const { state, historyAdded } = applyChanges(userId, current, response.changes);
+    saveState(userId, { ...state, cursor: Math.max(current.cursor, response.cursor) });
+    statsChanged ||= response.changes.some(c => c.type !== 'history');
+    historyChanged ||= historyAdded > 0;
+
+    if (!response.hasMore && getOutbox(userId).length === 0) break;
+  }
+
+  return { stats: deriveStats(loadState(userId)!), statsChanged, historyChanged };
+};
+
+const inFlight = new Map<string, Promise<SyncResult | null>>();
+
+// One sync per user at a time; callers during a run share it
+export const syncNow = (userId: string): Promise<SyncResult | null> => {
+  let running = inFlight.get(userId);
+  if (!running) {
+    running = runSync(userId).finally(() => { inFlight.delete(userId); });
+    inFlight.set(userId, running);
+  }
+  return running;
+};
+
+// Keeps a signed-in user in sync: now, whenever the device comes back online or
+// the tab is shown again, on a timer, and shortly after local changes.
+// Returns a function that stops it.
+export const startSync = (userId: string, onChange: (result: SyncResult) => void) => {
+  let stopped = false;
+  let delayTimer: ReturnType<typeof setTimeout> | undefined;
+  let lastRun = 0;
+
+  const run = () => {
+    if (stopped || !navigator.onLine) return;
+    lastRun = Date.now();
+    syncNow(userId)
+      .then(result => {
+        if (!stopped && result && (result.statsChanged || result.historyChanged)) onChange(result);
+      })
+      // Nothing is lost: the outbox keeps everything until a sync gets through
+      .catch(e => console.warn('Sync failed; changes stay on this device until the next try', e));
+  };
+  const onVisible = () => {
+    if (document.visibilityState === 'visible' && Date.now() - lastRun >= VISIBLE_SYNC_GAP_MS) run();
+  };
+
+  requestSync = () => {
+    clearTimeout(delayTimer);
+    delayTimer = setTimeout(run, SYNC_DELAY_MS);
+  };
+  window.addEventListener('online', run);
+  document.addEventListener('visibilitychange', onVisible);
+  const interval = setInterval(run, SYNC_INTERVAL_MS);
+  run();
+
+  return () => {
+    stopped = true;
+    requestSync = null;
+    clearTimeout(delayTimer);
+    clearInterval(interval);
+    window.removeEventListener('online', run);
+    document.removeEventListener('visibilitychange', onVisible);
+  };
+};
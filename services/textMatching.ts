@@ -0,0 +1,64 @@
+// Shared string helpers for comparing model output with options and user answers
+
+// Normalize strings for robust comparison (MC/TF)
+export const normalizeOptionText = (text: string | undefined): string => {
+  if (!text) return '';
+  let s = text.toLowerCase().trim();
+  s = s.replace(/[.,;!]+$/, ''); // Remove trailing punctuation
+  // Require space after separator (e.g. "A. ", "1. ") to protect decimals like "3.14" from being stripped
+  s = s.replace(/^[a-z0-9]+[.):-]\s+/, ''); 
+  return s.trim();
+};
+
+export const isOptionMatch = (opt1: string | undefined, opt2: string | undefined): boolean => {
+    const n1 = normalizeOptionText(opt1);
+    const n2 = normalizeOptionText(opt2);
+    if (n1 === n2) return true;
+    
+    // Fuzzy match for longer strings (e.g. "Paris" vs "City of Paris")
+    if (n1.length > 3 && n2.length > 3) {
+        if (n1.includes(n2) || n2.includes(n1)) return true;
+    }
+    return false;
+};
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().replace(/[^\w\s]/g, ' ').split(/\s+/).filter(Boolean);
+
+// Jaccard overlap of word sets, 0..1
+export const tokenSimilarity = (a: string, b: string): number => {
+  const ta = new Set(tokenize(a));
+  const tb = new Set(tokenize(b));
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(t => { if (tb.has(t)) shared++; });
+  return shared / (ta.size + tb.size - shared);
+};
+
+// Whether `quote` appears in `text`, ignoring case, punctuation and whitespace differences
+export const containsQuote = (text: string, quote: string): boolean => {
+  const flatten = (s: string) => tokenize(s).join(' ');
+  const q = flatten(quote);
+  return q.length > 0 && flatten(text).includes(q);
+};
+
+// Words that carry no meaning on their own, so rewording doesn't hide a repeated question
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'of', 'in', 'on', 'at', 'to', 'for', 'by', 'with', 'from', 'and', 'or', 'is', 'are', 'was', 'were',
+  'be', 'does', 'do', 'did', 'what', 'which', 'who', 'whom', 'when', 'where', 'why', 'how', 'that', 'this', 'these',
+  'those', 'it', 'its', 'as', 'following', 'true', 'false', 'statement', 'correct', 'best', 'describes', 'explain'
+]);
+
+// Content words with a plural "s" dropped
+const keyTerms = (text: string): Set<string> =>
+  new Set(tokenize(text).filter(w => !STOPWORDS.has(w)).map(w => w.length > 3 ? w.replace(/s$/, '') : w));
+
+// Same question asked again, give or take the wording
+export const isNearDuplicate = (a: string, b: string): boolean => {
+  const ta = keyTerms(a);
+  const tb = keyTerms(b);
+  if (ta.size === 0 || tb.size === 0) return tokenize(a).join(' ') === tokenize(b).join(' ');
+  let shared = 0;
+  ta.forEach(t => { if (tb.has(t)) shared++; });
+  return shared / (ta.size + tb.size - shared) >= 0.6;
+};
@@ -9,7 +9,7 @@ export enum QuestionType {
   FLASHCARD = 'FLASHCARD'
 }
 
-export type QuizMode = 'MIXED' | 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER' | 'CONCEPTUAL' | 'FLASHCARD' | 'FILL_IN_THE_BLANK' | 'BOSS_BATTLE';
+export type QuizMode = 'MIXED' | 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER' | 'CONCEPTUAL' | 'FLASHCARD' | 'FILL_IN_THE_BLANK' | 'BOSS_BATTLE' | 'REVIEW' | 'MISTAKES' | 'EXAM';
 
 export type Difficulty = 'EASY' | 'MEDIUM' | 'HARD';
 
@@ -23,9 +23,20 @@ export enum AIPersonality {
 export interface QuizSettings {
   difficulty: Difficulty;
   timeLimit: number; // seconds per question, 0 for off
+  examDuration?: number; // minutes for a whole exam, 0 to allow EXAM_SECONDS_PER_QUESTION each
   allowedTypes: QuestionType[]; // for filtering mixed mode
   personality: AIPersonality;
   enableExplainItBack: boolean; // New feature
+  enableAIGrading?: boolean; // Ask the AI to grade typed answers the local checks can't settle
+  adaptiveDifficulty?: boolean; // Move the level up or down mid-session based on recent answers
+}
+
+// Where in the user's own material the answer comes from
+export interface QuestionSource {
+  fileName?: string;  // Attached file name, or undefined for typed notes
+  page?: number;      // PDF page, when known
+  excerpt: string;    // Quoted passage that supports the answer
+  verified?: boolean; // True when the quote was found in the notes text
 }
 
 export interface QuizQuestion {
@@ -40,18 +51,121 @@ export interface QuizQuestion {
   
   // New Fields for Advanced Types
   orderingItems?: string[]; // The items in the correct order
+  acceptedAnswers?: string[]; // Other wordings that also count as correct (short answer, fill in the blank)
   matchingPairs?: { left: string; right: string }[]; // Pairs to match
   
   // New Field for Media Integration
   searchQuery?: string; // A query string to find relevant videos/resources
+
+  // Which part of the source material the question was generated from
+  section?: { index: number; label: string };
+
+  followUp?: boolean; // Generated mid-session after the adaptive level moved; asked next
+
+  source?: QuestionSource; // Citation shown when the answer is revealed
 }
 
 export interface QuizResult {
-  score: number;
+  score: number; // Sum of per-question credit; fractional when answers got partial credit
   totalQuestions: number;
   correctAnswers: number;
   timeTaken: number; // in seconds
   xpEarned: number; // New gamification
+  attempts?: (QuestionAttempt | null)[]; // One per question, null if never answered (e.g. boss lost)
+  flagged?: number[]; // Indexes of questions the user flagged
+  finalDifficulty?: Difficulty; // Level reached by an adaptive session
+}
+
+// How sure the user was before seeing whether they were right
+export type Confidence = 'GUESS' | 'UNSURE' | 'SURE';
+
+// What the user did with one question
+export interface QuestionAttempt {
+  response: string;   // The user's answer as readable text ('' when time ran out)
+  score: number;      // Credit earned, 0..1
+  timedOut?: boolean;
+  timeMs?: number;    // Time spent on the question before checking
+  hintsUsed?: number;
+  confidence?: Confidence; // Rated before checking; missing when time ran out
+  explanationFeedback?: { isCorrect: boolean; feedback: string }; // From Explain It Back
+  timestamp: number;
+}
+
+// A question the user got wrong, kept until they've answered it right a few times in a row
+export interface MistakeEntry {
+  id: string; // Same id as the question's review card
+  question: QuizQuestion;
+  topic: string;
+  attempts: QuestionAttempt[]; // Wrong attempts, oldest first
+  correctStreak: number;       // Correct answers since the last mistake
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Everything QuizView needs to pick a session up where it left off
+export interface QuizProgress {
+  currentIndex: number;
+  score: number;
+  correctCount: number;
+  attempts: (QuestionAttempt | null)[];
+  flagged: number[];
+  bossHits?: number;   // Hits landed on the boss, partial credit included
+  bossHealth?: number; // Checkpoints from before bossHits
+  playerHealth: number;
+  elapsedMs: number; // Session time so far
+  timeLeft: number;  // On the current question's timer
+  // The current question, mid-answer
+  isAnswerRevealed: boolean;
+  isCurrentCorrect: boolean;
+  currentGrade: { score: number; rationale?: string; misplaced?: string[] } | null;
+  selectedOption: string | null;
+  textAnswer: string;
+  hintLevel: number;
+  orderingState: { id: string; text: string }[];
+  orderingMoved?: boolean;
+  matchingState: { matches: Record<string, string>; shuffledRight: string[] };
+  confidence?: Confidence | null;
+  drafts?: Record<number, QuestionDraft>; // Exam answers not yet submitted, by question index
+  difficulty?: Difficulty; // Current adaptive level
+  queue?: number[];   // Question indexes in the order they'll be asked; skipping moves one to the end
+  skipped?: number[];
+}
+
+// An exam answer held back until the whole paper is submitted
+export interface QuestionDraft {
+  selectedOption: string | null;
+  textAnswer: string;
+  orderingState: { id: string; text: string }[];
+  orderingMoved?: boolean; // The shuffled order doesn't count as an answer until an item is moved
+  matchingState: { matches: Record<string, string>; shuffledRight: string[] };
+  confidence?: Confidence | null;
+}
+
+// A quiz in progress, saved so it survives a refresh or an accidental exit
+export interface QuizCheckpoint {
+  questions: QuizQuestion[];
+  mode: QuizMode;
+  settings?: QuizSettings;
+  topic: string;
+  progress: QuizProgress;
+  savedAt: number;
+}
+
+// SM-2 recall quality: 0 = blackout ... 5 = perfect recall
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+// A question the user has answered, scheduled for spaced repetition
+export interface ReviewCard {
+  id: string; // Derived from the question's type and text, so repeats share a card
+  question: QuizQuestion;
+  topic: string;
+  ease: number;        // SM-2 easiness factor, >= 1.3
+  interval: number;    // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  lapses: number;      // Times the card was forgotten
+  due: number;         // timestamp
+  lastReviewed: number; // timestamp
+  confidentMiss?: boolean; // Last review was answered "sure" and wrong; reviewed first
 }
 
 export interface UserStats {
@@ -69,6 +183,23 @@ export interface UserProfile {
   email: string;
   avatarSeed: string;
   stats?: UserStats; // Optional for backward compatibility
+  emailVerified?: boolean;
+}
+
+// What the auth server keeps about a user; stats travel separately through sync
+export interface Account {
+  id: string;
+  name: string;
+  email: string;
+  avatarSeed: string;
+  emailVerified: boolean;
+}
+
+export interface AuthSession {
+  account: Account;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // When the access token runs out, ms timestamp
 }
 
 export interface QuizHistoryItem {
@@ -78,8 +209,30 @@ export interface QuizHistoryItem {
   score: number;
   totalQuestions: number;
   mode: QuizMode;
-  difficulty: Difficulty;
+  difficulty: Difficulty; // Level the session started at
+  finalDifficulty?: Difficulty; // Level an adaptive session ended at; the next one on this topic starts here
   timeTaken: number;
+  // Full session for replay; missing on entries saved before replays existed
+  questions?: QuizQuestion[];
+  attempts?: (QuestionAttempt | null)[];
+  flagged?: number[];
+}
+
+// Stats that add up across a user's devices
+export type SyncCounter = 'totalMinutesStudied' | 'quizzesCompleted' | 'totalXp';
+
+// One change to a user's progress, as recorded on a device and relayed by the
+// sync server. Applying a change twice, or out of order, gives the same result.
+export type SyncChange = { id: string; deviceId: string; createdAt: number } & (
+  | { type: 'counters'; totals: Record<SyncCounter, number> } // This device's running totals
+  | { type: 'study'; day: string; at: number } // Day studied, YYYY-MM-DD on the device's calendar
+  | { type: 'history'; item: QuizHistoryItem }
+);
+
+export interface SyncResponse {
+  changes: SyncChange[]; // From the user's other devices, oldest first
+  cursor: number; // Pass back next time to get only what's new
+  hasMore: boolean;
 }
 
 export enum AppState {
@@ -89,5 +242,7 @@ export enum AppState {
   QUIZ = 'QUIZ',
   RESULTS = 'RESULTS',
   HISTORY = 'HISTORY',
-  SUMMARY = 'SUMMARY'
+  SUMMARY = 'SUMMARY',
+  MISTAKES = 'MISTAKES',
+  HISTORY_REPLAY = 'HISTORY_REPLAY'
 }
@@ -1,12 +1,19 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const apiPort = process.env.API_PORT || '8787';
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
   define: {
-    // This allows the app to access process.env.API_KEY in the browser
-    // Vercel injects this variable during the build process
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY || '')
+    // Only 'mock' changes anything in the browser; the API key stays on the server
+    'process.env.AI_PROVIDER': JSON.stringify(process.env.AI_PROVIDER || '')
+  },
+  server: {
+    // AI calls go to the backend in server/, which holds the API key
+    proxy: {
+      '/api': `http://localhost:${apiPort}`
+    }
   }
-});
\ No newline at end of file
+});